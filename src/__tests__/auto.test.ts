@@ -0,0 +1,150 @@
+/**
+ * auto.test.ts - Tests for automatic checkpoint triggers
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AutoCheckpointer, type AutoCheckpointCreator } from '../auto';
+import { DEFAULT_CONFIG, type AutoCheckpointConfig } from '../config';
+
+describe('AutoCheckpointer', () => {
+  let create: ReturnType<typeof vi.fn<AutoCheckpointCreator>>;
+  let config: AutoCheckpointConfig;
+
+  const checkpointer = () => new AutoCheckpointer(config, create);
+
+  beforeEach(() => {
+    create = vi.fn<AutoCheckpointCreator>().mockResolvedValue(true);
+    config = { ...DEFAULT_CONFIG.autoCheckpoint, enabled: true, everyMessages: 3 };
+  });
+
+  describe('beforeTool', () => {
+    it('should checkpoint before file-mutating tools', async () => {
+      const created = await checkpointer().beforeTool('session-1', 'edit');
+
+      expect(created).toBe(true);
+      expect(create).toHaveBeenCalledWith({
+        sessionId: 'session-1',
+        trigger: 'tool',
+        name: 'Before edit'
+      });
+    });
+
+    it('should ignore tools that are not configured', async () => {
+      const created = await checkpointer().beforeTool('session-1', 'read');
+
+      expect(created).toBe(false);
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    it('should honor a custom tool list', async () => {
+      config.beforeTools = ['read'];
+      const auto = checkpointer();
+
+      expect(await auto.beforeTool('session-1', 'read')).toBe(true);
+      expect(await auto.beforeTool('session-1', 'edit')).toBe(false);
+    });
+  });
+
+  describe('sessionIdle', () => {
+    it('should checkpoint when the session goes idle', async () => {
+      await checkpointer().sessionIdle('session-1');
+
+      expect(create).toHaveBeenCalledWith({
+        sessionId: 'session-1',
+        trigger: 'idle',
+        name: 'Session idle'
+      });
+    });
+
+    it('should do nothing when disabled', async () => {
+      config.onIdle = false;
+      expect(await checkpointer().sessionIdle('session-1')).toBe(false);
+      expect(create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('messageSeen', () => {
+    it('should checkpoint every N new messages', async () => {
+      const auto = checkpointer();
+      const results = [];
+      for (let i = 0; i < 7; i++) {
+        results.push(await auto.messageSeen('session-1', `msg-${i}`));
+      }
+
+      expect(results).toEqual([false, false, true, false, false, true, false]);
+      expect(create).toHaveBeenCalledTimes(2);
+      expect(create).toHaveBeenCalledWith({
+        sessionId: 'session-1',
+        trigger: 'interval',
+        name: 'Every 3 messages'
+      });
+    });
+
+    it('should not count repeated updates of the same message', async () => {
+      const auto = checkpointer();
+      for (let i = 0; i < 10; i++) {
+        await auto.messageSeen('session-1', 'msg-streaming');
+      }
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    it('should count sessions separately', async () => {
+      const auto = checkpointer();
+      await auto.messageSeen('session-1', 'a');
+      await auto.messageSeen('session-2', 'b');
+      await auto.messageSeen('session-1', 'c');
+      await auto.messageSeen('session-2', 'd');
+
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    it('should be disabled with everyMessages 0', async () => {
+      config.everyMessages = 0;
+      const auto = checkpointer();
+      for (let i = 0; i < 5; i++) {
+        await auto.messageSeen('session-1', `msg-${i}`);
+      }
+      expect(create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('guards', () => {
+    it('should do nothing when auto checkpoints are disabled', async () => {
+      config.enabled = false;
+      const auto = checkpointer();
+
+      await auto.beforeTool('session-1', 'edit');
+      await auto.sessionIdle('session-1');
+      for (let i = 0; i < 5; i++) {
+        await auto.messageSeen('session-1', `msg-${i}`);
+      }
+
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    it('should not run two checkpoints for a session at once', async () => {
+      let finish: (value: boolean) => void = () => {};
+      create.mockImplementationOnce(() => new Promise((resolve) => { finish = resolve; }));
+      const auto = checkpointer();
+
+      const first = auto.beforeTool('session-1', 'edit');
+      const second = await auto.beforeTool('session-1', 'write');
+      finish(true);
+
+      expect(second).toBe(false);
+      expect(await first).toBe(true);
+      expect(create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should swallow errors from the creator', async () => {
+      create.mockRejectedValue(new Error('database locked'));
+
+      await expect(checkpointer().beforeTool('session-1', 'bash')).resolves.toBe(false);
+    });
+
+    it('should report skipped checkpoints', async () => {
+      create.mockResolvedValue(false);
+      expect(await checkpointer().sessionIdle('session-1')).toBe(false);
+    });
+  });
+});
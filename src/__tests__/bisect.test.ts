@@ -0,0 +1,163 @@
+/**
+ * bisect.test.ts - Tests for bisecting checkpoints
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { bisectCandidates, bisectCheckpoints, runTestAt, type TestRun } from '../bisect';
+import { GitRepository } from '../git';
+import type { Checkpoint } from '../store';
+import { execFileSync } from 'child_process';
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const checkpoint = (id: number, gitCommit: string | null, gitSnapshot: string | null = null): Checkpoint => ({
+  id,
+  sessionId: 'session-1',
+  name: `Checkpoint ${id}`,
+  description: null,
+  messageCount: id,
+  anchorMessageId: null,
+  fingerprint: null,
+  excerpt: null,
+  gitCommit,
+  gitSnapshot,
+  gitStatus: null,
+  autoTrigger: null,
+  pinned: false,
+  tags: [],
+  directory: null,
+  createdAt: 1000 + id,
+  updatedAt: 1000 + id,
+  deletedAt: null,
+  metadata: '{}',
+});
+
+const run = (passed: boolean): TestRun => ({ passed, exitCode: passed ? 0 : 1, timedOut: false, output: '' });
+
+describe('bisectCandidates', () => {
+  it('should keep checkpoints with code, oldest first, preferring snapshots', () => {
+    const candidates = bisectCandidates([
+      checkpoint(3, 'c3', 's3'),
+      checkpoint(2, null),
+      checkpoint(1, 'c1'),
+    ]);
+
+    expect(candidates.map((cp) => cp.id)).toEqual([1, 3]);
+  });
+});
+
+describe('bisectCheckpoints', () => {
+  const range = Array.from({ length: 9 }, (_, i) => checkpoint(i + 1, `c${i + 1}`));
+
+  it('should find the first failing checkpoint in logarithmic runs', async () => {
+    const test = vi.fn(async (cp: Checkpoint) => run(cp.id < 6));
+
+    const result = await bisectCheckpoints(range, test);
+
+    expect(result).toMatchObject({ status: 'found', lastGood: { id: 5 }, firstBad: { id: 6 } });
+    expect(test.mock.calls.length).toBeLessThanOrEqual(5);
+    expect(result.steps.map((step) => step.checkpoint.id).slice(0, 2)).toEqual([9, 1]);
+  });
+
+  it('should stop when the newest checkpoint passes', async () => {
+    const test = vi.fn(async () => run(true));
+
+    const result = await bisectCheckpoints(range, test);
+
+    expect(result.status).toBe('passing');
+    expect(test).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report a range that fails from the start', async () => {
+    const result = await bisectCheckpoints(range, async () => run(false));
+
+    expect(result).toMatchObject({ status: 'failing', firstBad: { id: 1 } });
+    expect(result.steps).toHaveLength(2);
+  });
+
+  it('should run checkpoints with the same code once', async () => {
+    const shared = [checkpoint(1, 'a'), checkpoint(2, 'b'), checkpoint(3, 'b'), checkpoint(4, 'b')];
+    const test = vi.fn(async (cp: Checkpoint) => run(cp.gitCommit === 'a'));
+
+    const result = await bisectCheckpoints(shared, test);
+
+    expect(result).toMatchObject({ status: 'found', lastGood: { id: 1 }, firstBad: { id: 2 } });
+    expect(test).toHaveBeenCalledTimes(2);
+  });
+
+  it('should need two checkpoints', async () => {
+    await expect(bisectCheckpoints([range[0]], async () => run(true))).rejects.toThrow('at least two');
+  });
+});
+
+describe('runTestAt', () => {
+  let repoDir: string;
+  let repo: GitRepository;
+
+  const git = (...args: string[]): string =>
+    execFileSync('git', args, { cwd: repoDir, encoding: 'utf8' }).trim();
+
+  beforeEach(() => {
+    repoDir = mkdtempSync(join(tmpdir(), 'test-bisect-'));
+    git('init', '-q');
+    git('config', 'user.name', 'Test');
+    git('config', 'user.email', 'test@example.com');
+    writeFileSync(join(repoDir, 'status.txt'), 'ok\n');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'good');
+    repo = new GitRepository(repoDir);
+  });
+
+  afterEach(() => {
+    rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it('should run the command at a commit and leave no worktree behind', async () => {
+    const good = repo.head()!;
+    writeFileSync(join(repoDir, 'status.txt'), 'broken\n');
+    git('commit', '-q', '-am', 'bad');
+
+    const passed = await runTestAt(repo, good, 'grep -qx ok status.txt', 60_000);
+    const failed = await runTestAt(repo, repo.head()!, 'cat status.txt; exit 3', 60_000);
+
+    expect(passed).toEqual({ passed: true, exitCode: 0, timedOut: false, output: '' });
+    expect(failed).toMatchObject({ passed: false, exitCode: 3, output: 'broken' });
+    expect(git('worktree', 'list').split('\n')).toHaveLength(1);
+    expect(readdirSync(tmpdir()).filter((name) => name.startsWith('checkpoint-bisect-'))).toEqual([]);
+  });
+
+  it('should test the uncommitted changes of a snapshot', async () => {
+    writeFileSync(join(repoDir, 'status.txt'), 'broken\n');
+    const snapshot = repo.snapshot()!;
+    git('checkout', '-q', '--', 'status.txt');
+
+    const result = await runTestAt(repo, snapshot, 'grep -qx ok status.txt', 60_000);
+
+    expect(result.passed).toBe(false);
+    expect(readFileSync(join(repoDir, 'status.txt'), 'utf8')).toBe('ok\n');
+  });
+
+  it('should fail runs that exceed the time limit', async () => {
+    const result = await runTestAt(repo, repo.head()!, 'sleep 2', 200);
+
+    expect(result).toMatchObject({ passed: false, timedOut: true });
+  });
+
+  it('should kill everything a timed out command started', async () => {
+    const pidFile = join(repoDir, 'child.pid');
+    // Zombies wait for their new parent to reap them; they do not run
+    const running = (pid: number): boolean => {
+      try {
+        return !/\) Z/.test(readFileSync(`/proc/${pid}/stat`, 'utf8'));
+      } catch {
+        return false;
+      }
+    };
+
+    const result = await runTestAt(repo, repo.head()!, `sleep 30 & echo $! > ${pidFile}; wait`, 200);
+
+    expect(result.timedOut).toBe(true);
+    expect(running(parseInt(readFileSync(pidFile, 'utf8'), 10))).toBe(false);
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * bundle.test.ts - Tests for portable checkpoint bundles
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  BUNDLE_FORMAT,
+  BUNDLE_VERSION,
+  BundleFormatError,
+  createBundle,
+  importCheckpoints,
+  parseBundle,
+} from '../bundle';
+import { CheckpointDatabase } from '../database';
+import type { SessionMessage } from '../restore';
+import { unlinkSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const messages: SessionMessage[] = Array.from({ length: 6 }, (_, i) => ({
+  id: `msg-${i}`,
+  role: i % 2 === 0 ? 'user' : 'assistant',
+  createdAt: 1000 + i,
+  content: [{ type: 'text', text: `Message ${i}` }]
+}));
+
+const SNAPSHOT = 'def456'.padEnd(40, '0');
+
+describe('checkpoint bundles', () => {
+  let source: CheckpointDatabase;
+  let target: CheckpointDatabase;
+  const sourcePath = join(tmpdir(), `test-bundle-source-${Date.now()}.db`);
+  const targetPath = join(tmpdir(), `test-bundle-target-${Date.now()}.db`);
+
+  beforeEach(() => {
+    source = new CheckpointDatabase(sourcePath);
+    target = new CheckpointDatabase(targetPath);
+  });
+
+  afterEach(() => {
+    source.close();
+    target.close();
+    for (const path of [sourcePath, targetPath]) {
+      if (existsSync(path)) {
+        unlinkSync(path);
+      }
+    }
+  });
+
+  describe('createBundle', () => {
+    it('should hold the checkpoint rows with parsed metadata', () => {
+      source.createCheckpoint({
+        sessionId: 'session-1',
+        name: 'Before refactor',
+        description: 'Working auth',
+        messageCount: 2,
+        anchorMessageId: 'msg-1',
+        gitCommit: 'abc123',
+        pinned: true,
+        metadata: { directory: '/project' }
+      });
+
+      const bundle = createBundle(source.listAllCheckpoints());
+
+      expect(bundle.format).toBe(BUNDLE_FORMAT);
+      expect(bundle.version).toBe(BUNDLE_VERSION);
+      expect(bundle.checkpoints).toHaveLength(1);
+      expect(bundle.checkpoints[0]).toMatchObject({
+        sessionId: 'session-1',
+        name: 'Before refactor',
+        description: 'Working auth',
+        anchorMessageId: 'msg-1',
+        gitCommit: 'abc123',
+        pinned: true,
+        metadata: { directory: '/project' }
+      });
+      expect(bundle.transcripts).toBeUndefined();
+      expect(bundle.git).toBeUndefined();
+    });
+
+    it('should trim transcripts to the latest exported checkpoint', () => {
+      source.createCheckpoint({
+        sessionId: 'session-1', name: 'Early', messageCount: 2, anchorMessageId: 'msg-1'
+      });
+      source.createCheckpoint({
+        sessionId: 'session-1', name: 'Later', messageCount: 4, anchorMessageId: 'msg-3'
+      });
+
+      const bundle = createBundle(source.listAllCheckpoints(), {
+        transcripts: { 'session-1': messages }
+      });
+
+      const transcript = bundle.transcripts!['session-1'];
+      expect(transcript.map((m) => m.id)).toEqual(['msg-0', 'msg-1', 'msg-2', 'msg-3']);
+      expect(transcript[0]).toEqual({
+        id: 'msg-0',
+        role: 'user',
+        createdAt: 1000,
+        parts: [{ type: 'text', text: 'Message 0' }]
+      });
+    });
+
+    it('should encode the git bundle as base64', () => {
+      source.createCheckpoint({ sessionId: 'session-1', name: 'CP', messageCount: 0 });
+
+      const bundle = createBundle(source.listAllCheckpoints(), {
+        git: { bundle: Buffer.from('git bundle bytes'), refs: ['refs/checkpoints/abc'] }
+      });
+
+      expect(Buffer.from(bundle.git!.bundle, 'base64').toString()).toBe('git bundle bytes');
+      expect(bundle.git!.refs).toEqual(['refs/checkpoints/abc']);
+    });
+  });
+
+  describe('parseBundle', () => {
+    const valid = () => JSON.parse(JSON.stringify(createBundle([])));
+
+    it('should round-trip an exported bundle', () => {
+      source.createCheckpoint({ sessionId: 'session-1', name: 'CP', messageCount: 3 });
+      const bundle = createBundle(source.listAllCheckpoints());
+
+      expect(parseBundle(JSON.stringify(bundle))).toEqual(bundle);
+    });
+
+    it('should reject documents that are not bundles', () => {
+      expect(() => parseBundle('not json')).toThrow(BundleFormatError);
+      expect(() => parseBundle('{"format":"other"}')).toThrow(/Not a checkpoint bundle/);
+    });
+
+    it('should reject bundles from a newer version', () => {
+      const bundle = { ...valid(), version: BUNDLE_VERSION + 1 };
+      expect(() => parseBundle(JSON.stringify(bundle))).toThrow(/newer than supported/);
+    });
+
+    it('should point at the invalid checkpoint', () => {
+      const bundle = {
+        ...valid(),
+        checkpoints: [
+          { id: 1, sessionId: 's', name: 'ok', messageCount: 0, createdAt: 1 },
+          { id: 2, sessionId: 's', name: 'bad', messageCount: -1, createdAt: 1 }
+        ]
+      };
+      expect(() => parseBundle(JSON.stringify(bundle))).toThrow(
+        'Checkpoint #2: messageCount must be a non-negative integer'
+      );
+    });
+
+    it('should accept bundles without tags but reject malformed ones', () => {
+      const checkpoint = { id: 1, sessionId: 's', name: 'cp', messageCount: 0, createdAt: 1 };
+      expect(() => parseBundle(JSON.stringify({ ...valid(), checkpoints: [checkpoint] })))
+        .not.toThrow();
+      expect(() => parseBundle(JSON.stringify({
+        ...valid(), checkpoints: [{ ...checkpoint, tags: 'auth' }]
+      }))).toThrow('Checkpoint #1: tags must be an array of strings');
+    });
+
+    it('should only accept full commit hashes for git fields', () => {
+      const checkpoint = { id: 1, sessionId: 's', name: 'cp', messageCount: 0, createdAt: 1 };
+      const parse = (extra: object) =>
+        parseBundle(JSON.stringify({ ...valid(), checkpoints: [{ ...checkpoint, ...extra }] }));
+
+      expect(() => parse({ gitCommit: SNAPSHOT, gitSnapshot: 'a'.repeat(64) })).not.toThrow();
+      expect(() => parse({ gitSnapshot: '--output=/tmp/overwritten' })).toThrow(
+        'Checkpoint #1: gitSnapshot must be a 40- or 64-character hex commit hash'
+      );
+      expect(() => parse({ gitCommit: 'abc123' })).toThrow(/gitCommit must be/);
+      expect(() => parse({ gitCommit: 'HEAD~1' })).toThrow(/gitCommit must be/);
+    });
+
+    it('should reject an incomplete git section', () => {
+      const bundle = { ...valid(), git: { refs: [] } };
+      expect(() => parseBundle(JSON.stringify(bundle))).toThrow(/git section/);
+    });
+  });
+
+  describe('importCheckpoints', () => {
+    it('should insert checkpoints with remapped IDs', () => {
+      // Occupy the first IDs in the target so the imported ones must move
+      target.createCheckpoint({ sessionId: 'other', name: 'Existing 1', messageCount: 0 });
+      target.createCheckpoint({ sessionId: 'other', name: 'Existing 2', messageCount: 0 });
+
+      const firstId = source.createCheckpoint({
+        sessionId: 'session-1', name: 'First', messageCount: 2, anchorMessageId: 'msg-1',
+        gitSnapshot: SNAPSHOT, autoTrigger: 'idle', tags: ['auth'],
+        gitStatus: {
+          branch: 'main', ahead: null, behind: null, dirty: true, staged: 1, modified: 0, untracked: 0
+        }
+      });
+      const bundle = parseBundle(JSON.stringify(createBundle(source.listAllCheckpoints())));
+
+      const { idMap, skipped } = importCheckpoints(target, bundle, '/importing-project');
+
+      expect(skipped).toBe(0);
+      const newId = idMap.get(firstId)!;
+      expect(newId).not.toBe(firstId);
+
+      const imported = target.getCheckpoint(newId)!;
+      const original = source.getCheckpoint(firstId)!;
+      expect(imported).toMatchObject({
+        sessionId: 'session-1',
+        name: 'First',
+        messageCount: 2,
+        anchorMessageId: 'msg-1',
+        gitSnapshot: SNAPSHOT,
+        autoTrigger: 'idle',
+        tags: ['auth'],
+        gitStatus: { branch: 'main', dirty: true, staged: 1 },
+        directory: '/importing-project',
+        createdAt: original.createdAt
+      });
+      expect(JSON.parse(imported.metadata).importedFrom).toBe(firstId);
+    });
+
+    it('should skip checkpoints imported before', () => {
+      source.createCheckpoint({ sessionId: 'session-1', name: 'CP', messageCount: 1 });
+      const bundle = createBundle(source.listAllCheckpoints());
+
+      const first = importCheckpoints(target, bundle);
+      const second = importCheckpoints(target, bundle);
+
+      expect(second.skipped).toBe(1);
+      expect(second.idMap).toEqual(first.idMap);
+      expect(target.getStats().totalCheckpoints).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * config.test.ts - Tests for plugin configuration loading
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { loadConfig, DEFAULT_CONFIG } from '../config';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+describe('loadConfig', () => {
+  let dir: string;
+  let globalDir: string;
+
+  const writeConfig = (content: string): void => {
+    mkdirSync(join(dir, '.opencode'), { recursive: true });
+    writeFileSync(join(dir, '.opencode', 'checkpoint.json'), content);
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'test-config-'));
+    globalDir = mkdtempSync(join(tmpdir(), 'test-config-global-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    rmSync(globalDir, { recursive: true, force: true });
+  });
+
+  it('should return defaults without a config file', () => {
+    expect(loadConfig(dir)).toEqual(DEFAULT_CONFIG);
+  });
+
+  it('should not share state with the defaults', () => {
+    loadConfig(dir).autoCheckpoint.beforeTools.push('read');
+    expect(DEFAULT_CONFIG.autoCheckpoint.beforeTools).not.toContain('read');
+  });
+
+  it('should merge auto checkpoint settings over the defaults', () => {
+    writeConfig(JSON.stringify({ autoCheckpoint: { onIdle: false, everyMessages: 5 } }));
+
+    const config = loadConfig(dir);
+
+    expect(config.autoCheckpoint.onIdle).toBe(false);
+    expect(config.autoCheckpoint.everyMessages).toBe(5);
+    expect(config.autoCheckpoint.enabled).toBe(false);
+    expect(config.autoCheckpoint.beforeTools).toEqual(DEFAULT_CONFIG.autoCheckpoint.beforeTools);
+  });
+
+  it('should merge retention settings over the defaults', () => {
+    writeConfig(JSON.stringify({ retention: { keepLast: 5, autoPrune: true } }));
+
+    const config = loadConfig(dir);
+
+    expect(config.retention.keepLast).toBe(5);
+    expect(config.retention.autoPrune).toBe(true);
+    expect(config.retention.maxAge).toBe(DEFAULT_CONFIG.retention.maxAge);
+    expect(config.retention.thinning).toEqual(DEFAULT_CONFIG.retention.thinning);
+  });
+
+  it('should read the trash grace period', () => {
+    expect(loadConfig(dir).trash.gracePeriod).toBe('7d');
+
+    writeConfig(JSON.stringify({ trash: { gracePeriod: '30d' } }));
+
+    expect(loadConfig(dir).trash.gracePeriod).toBe('30d');
+  });
+
+  it('should report invalid JSON with the file path', () => {
+    writeConfig('{ not json');
+
+    expect(() => loadConfig(dir)).toThrow(/Invalid checkpoint config .*checkpoint\.json/);
+  });
+
+  it('should default to the global store', () => {
+    expect(loadConfig(dir, globalDir).store).toEqual({ location: 'global' });
+  });
+
+  it('should read the global config file', () => {
+    writeFileSync(join(globalDir, 'checkpoint.json'), JSON.stringify({
+      store: { location: 'both', globalPath: '/data/checkpoints.db' }
+    }));
+
+    expect(loadConfig(dir, globalDir).store).toEqual({
+      location: 'both',
+      globalPath: '/data/checkpoints.db'
+    });
+  });
+
+  it('should let the project config override the global one', () => {
+    writeFileSync(join(globalDir, 'checkpoint.json'), JSON.stringify({
+      store: { location: 'both', globalPath: '/data/checkpoints.db' },
+      retention: { keepLast: 3 }
+    }));
+    writeConfig(JSON.stringify({ store: { location: 'project' } }));
+
+    const config = loadConfig(dir, globalDir);
+
+    expect(config.store).toEqual({ location: 'project', globalPath: '/data/checkpoints.db' });
+    expect(config.retention.keepLast).toBe(3);
+  });
+
+  it('should report an invalid global config file', () => {
+    writeFileSync(join(globalDir, 'checkpoint.json'), '{ not json');
+    expect(() => loadConfig(dir, globalDir)).toThrow(`Invalid checkpoint config ${join(globalDir, 'checkpoint.json')}`);
+  });
+});
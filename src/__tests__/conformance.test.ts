@@ -0,0 +1,386 @@
+/**
+ * conformance.test.ts - Behaviour every CheckpointStore backend must share
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { CheckpointDatabase } from '../database';
+import { JsonlCheckpointStore } from '../jsonl';
+import { MemoryCheckpointStore } from '../memory';
+import type { CheckpointStore } from '../store';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const backends: [string, (dir: string) => CheckpointStore][] = [
+  ['sqlite', (dir) => new CheckpointDatabase(join(dir, 'checkpoints.db'))],
+  ['jsonl', (dir) => new JsonlCheckpointStore(join(dir, 'checkpoints.jsonl'))],
+  ['memory', () => new MemoryCheckpointStore()],
+];
+
+describe.each(backends)('%s store', (_name, open) => {
+  let dir: string;
+  let store: CheckpointStore;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'test-conformance-'));
+    store = open(dir);
+  });
+
+  afterEach(() => {
+    store.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const create = (name: string, extra: Partial<Parameters<CheckpointStore['createCheckpoint']>[0]> = {}) =>
+    store.createCheckpoint({ sessionId: 'session-1', name, messageCount: 1, ...extra });
+
+  it('should round-trip every field', () => {
+    const id = create('Full', {
+      description: 'Before refactor',
+      messageCount: 7,
+      anchorMessageId: 'msg_7',
+      fingerprint: '1:abcdef012345',
+      excerpt: 'Let us refactor the parser',
+      gitCommit: 'abc123',
+      gitSnapshot: 'def456',
+      gitStatus: { branch: 'main', ahead: 0, behind: 2, dirty: true, staged: 1, modified: 0, untracked: 0 },
+      autoTrigger: 'interval',
+      pinned: true,
+      tags: [' b ', 'a', 'b'],
+      directory: '/project',
+      createdAt: 1000,
+      metadata: { note: 'kept' },
+    });
+
+    expect(store.getCheckpoint(id)).toEqual({
+      id,
+      sessionId: 'session-1',
+      name: 'Full',
+      description: 'Before refactor',
+      messageCount: 7,
+      anchorMessageId: 'msg_7',
+      fingerprint: '1:abcdef012345',
+      excerpt: 'Let us refactor the parser',
+      gitCommit: 'abc123',
+      gitSnapshot: 'def456',
+      gitStatus: { branch: 'main', ahead: 0, behind: 2, dirty: true, staged: 1, modified: 0, untracked: 0 },
+      autoTrigger: 'interval',
+      pinned: true,
+      tags: ['a', 'b'],
+      directory: '/project',
+      createdAt: 1000,
+      updatedAt: 1000,
+      deletedAt: null,
+      metadata: JSON.stringify({ note: 'kept' }),
+    });
+  });
+
+  it('should default optional fields to null', () => {
+    const checkpoint = store.getCheckpoint(create('Bare'))!;
+
+    expect(checkpoint).toMatchObject({
+      description: null,
+      anchorMessageId: null,
+      fingerprint: null,
+      excerpt: null,
+      gitCommit: null,
+      gitSnapshot: null,
+      gitStatus: null,
+      autoTrigger: null,
+      pinned: false,
+      tags: [],
+      directory: null,
+      metadata: '{}',
+    });
+  });
+
+  it('should never reuse IDs of deleted checkpoints', () => {
+    const first = create('First');
+    const second = create('Second');
+    store.deleteCheckpoint(second);
+
+    const third = create('Third');
+
+    expect(second).toBeGreaterThan(first);
+    expect(third).toBeGreaterThan(second);
+  });
+
+  it('should not let callers change stored checkpoints', () => {
+    const id = create('Original', { tags: ['kept'] });
+
+    const checkpoint = store.getCheckpoint(id)!;
+    checkpoint.name = 'Changed';
+    checkpoint.tags.push('added');
+
+    expect(store.getCheckpoint(id)).toMatchObject({ name: 'Original', tags: ['kept'] });
+  });
+
+  it('should list newest first, breaking ties by ID', () => {
+    create('Old', { createdAt: 1000 });
+    create('Tie A', { createdAt: 2000 });
+    create('Tie B', { createdAt: 2000 });
+    create('Elsewhere', { sessionId: 'session-2', createdAt: 3000 });
+
+    expect(store.listCheckpoints('session-1').map((cp) => cp.name)).toEqual(['Tie B', 'Tie A', 'Old']);
+    expect(store.listCheckpoints('session-1', 1).map((cp) => cp.name)).toEqual(['Tie B']);
+    expect(store.listAllCheckpoints().map((cp) => cp.name)).toEqual(['Tie B', 'Tie A', 'Old', 'Elsewhere']);
+    expect(store.listAllCheckpoints('session-2').map((cp) => cp.name)).toEqual(['Elsewhere']);
+  });
+
+  it('should search with every filter combined', () => {
+    create('Before refactor', { tags: ['stable', 'api'], gitCommit: 'abc123', createdAt: 1000, directory: '/p' });
+    create('After refactor', { tags: ['api'], gitCommit: 'def456', createdAt: 2000, directory: '/p' });
+    create('100%_done', { createdAt: 3000, sessionId: 'session-2' });
+
+    const names = (filter: Parameters<CheckpointStore['searchCheckpoints']>[0]) =>
+      store.searchCheckpoints(filter).map((cp) => cp.name);
+
+    expect(names({})).toEqual(['100%_done', 'After refactor', 'Before refactor']);
+    expect(names({ tags: ['api', 'stable'] })).toEqual(['Before refactor']);
+    expect(names({ name: 'REFACTOR' })).toEqual(['After refactor', 'Before refactor']);
+    expect(names({ name: '%_' })).toEqual(['100%_done']);
+    expect(names({ createdAfter: 2000, createdBefore: 2000 })).toEqual(['After refactor']);
+    expect(names({ gitCommit: 'ABC' })).toEqual(['Before refactor']);
+    expect(names({ sessionId: 'session-2' })).toEqual(['100%_done']);
+    expect(names({ directory: '/p', limit: 1 })).toEqual(['After refactor']);
+  });
+
+  it('should find checkpoints by what was discussed', () => {
+    create('API design', { excerpt: 'We decided on GraphQL for the public API' });
+    create('GraphQL schema', { description: 'First GraphQL types' });
+    create('Unrelated', { excerpt: 'Fixed the CSS of the login page' });
+
+    const matches = store.findCheckpoints({ text: 'where did we decide on GraphQL?' });
+    const snippets = Object.fromEntries(matches.map((m) => [m.checkpoint.name, m.snippet]));
+
+    expect(Object.keys(snippets).sort()).toEqual(['API design', 'GraphQL schema']);
+    expect(snippets['API design']).toBe('We **decided** on **GraphQL** for the public API');
+  });
+
+  it('should rank name matches above excerpt matches', () => {
+    create('Parser rewrite', { createdAt: 1000 });
+    create('Cleanup', { excerpt: 'The parser needs work', createdAt: 2000 });
+    for (const name of ['Login', 'Styles', 'Deploy']) {
+      create(name, { excerpt: `Worked on ${name.toLowerCase()}` });
+    }
+
+    expect(store.findCheckpoints({ text: 'parser' }).map((m) => m.checkpoint.name))
+      .toEqual(['Parser rewrite', 'Cleanup']);
+  });
+
+  it('should scope full-text search and follow edits and deletes', () => {
+    const renamed = create('Old name', { directory: '/p' });
+    const gone = create('Parser work', { directory: '/p' });
+    create('Parser elsewhere', { directory: '/other' });
+
+    store.updateCheckpoint(renamed, { name: 'Parser rewrite' });
+    store.deleteCheckpoint(gone);
+
+    expect(store.findCheckpoints({ text: 'parser', directory: '/p' }).map((m) => m.checkpoint.id))
+      .toEqual([renamed]);
+    expect(store.findCheckpoints({ text: 'old' })).toEqual([]);
+    expect(store.findCheckpoints({ text: '?!' })).toEqual([]);
+  });
+
+  it('should find the most recent checkpoint by exact name', () => {
+    create('Same', { createdAt: 1000, directory: '/p' });
+    const newer = create('Same', { createdAt: 2000, directory: '/p', sessionId: 'session-2' });
+
+    expect(store.findCheckpointByName('session-1', 'same')).toBeNull();
+    expect(store.findCheckpointByName('session-2', 'Same')?.id).toBe(newer);
+    expect(store.findProjectCheckpointByName('/p', 'Same')?.id).toBe(newer);
+    expect(store.findProjectCheckpointByName('/other', 'Same')).toBeNull();
+  });
+
+  it('should apply updates the same way', () => {
+    const id = create('Typo', { description: 'Old', tags: ['a', 'b'], metadata: { keep: 1 }, createdAt: 1000 });
+
+    const renamed = store.updateCheckpoint(id, {
+      name: 'Fixed',
+      metadata: { added: 2 },
+      addTags: ['c', ' c '],
+      removeTags: ['a'],
+    });
+
+    expect(renamed).toMatchObject({ name: 'Fixed', description: 'Old', tags: ['b', 'c'] });
+    expect(JSON.parse(renamed!.metadata)).toEqual({ keep: 1, added: 2 });
+    expect(renamed!.updatedAt).toBeGreaterThan(1000);
+    expect(store.updateCheckpoint(id, { description: '' })?.description).toBeNull();
+    expect(store.updateCheckpoint(id + 100, { name: 'Missing' })).toBeNull();
+  });
+
+  it('should delete single, listed and session checkpoints', () => {
+    const a = create('A');
+    const b = create('B');
+    const c = create('C');
+    create('D', { sessionId: 'session-2' });
+
+    expect(store.deleteCheckpoint(a)).toBe(true);
+    expect(store.deleteCheckpoint(a)).toBe(false);
+    expect(store.deleteCheckpoints([b, a, 999])).toBe(1);
+    expect(store.deleteSessionCheckpoints('session-2')).toBe(1);
+    expect(store.listAllCheckpoints().map((cp) => cp.id)).toEqual([c]);
+  });
+
+  it('should pin and unpin checkpoints', () => {
+    const id = create('Release candidate');
+
+    expect(store.updateCheckpoint(id, { pinned: true })?.pinned).toBe(true);
+    expect(store.updateCheckpoint(id, { name: 'RC1' })?.pinned).toBe(true);
+    expect(store.updateCheckpoint(id, { pinned: false })?.pinned).toBe(false);
+  });
+
+  it('should keep pinned checkpoints when a session is cleaned up', () => {
+    const pinned = create('Release candidate', { pinned: true });
+    create('Scratch');
+
+    expect(store.deleteSessionCheckpoints('session-1')).toBe(1);
+    expect(store.listAllCheckpoints().map((cp) => cp.id)).toEqual([pinned]);
+  });
+
+  it('should keep deleted checkpoints in the trash, out of every query', () => {
+    const id = create('Trashed', { directory: '/p', excerpt: 'parser work' });
+    create('Kept', { directory: '/p' });
+
+    expect(store.deleteCheckpoint(id)).toBe(true);
+    expect(store.deleteCheckpoint(id)).toBe(false);
+
+    expect(store.getCheckpoint(id)).toBeNull();
+    expect(store.listCheckpoints('session-1').map((cp) => cp.name)).toEqual(['Kept']);
+    expect(store.listAllCheckpoints().map((cp) => cp.name)).toEqual(['Kept']);
+    expect(store.searchCheckpoints({ name: 'Trashed' })).toEqual([]);
+    expect(store.findCheckpoints({ text: 'parser' })).toEqual([]);
+    expect(store.findCheckpointByName('session-1', 'Trashed')).toBeNull();
+    expect(store.findProjectCheckpointByName('/p', 'Trashed')).toBeNull();
+    expect(store.updateCheckpoint(id, { name: 'Renamed' })).toBeNull();
+    expect(store.getStats()).toEqual({ totalCheckpoints: 1, totalSessions: 1 });
+
+    const [trashed] = store.listTrash({ directory: '/p' });
+    expect(trashed).toMatchObject({ id, name: 'Trashed' });
+    expect(trashed.deletedAt).toBeGreaterThan(0);
+    expect(store.listTrash({ sessionId: 'session-2' })).toEqual([]);
+  });
+
+  it('should undelete checkpoints with their tags', () => {
+    const id = create('Oops', { tags: ['keep'] });
+    store.deleteCheckpoints([id]);
+
+    expect(store.undeleteCheckpoint(id)).toMatchObject({ id, tags: ['keep'], deletedAt: null });
+    expect(store.undeleteCheckpoint(id)).toBeNull();
+    expect(store.listTrash()).toEqual([]);
+    expect(store.getCheckpoint(id)?.name).toBe('Oops');
+  });
+
+  it('should purge only checkpoints trashed before the cutoff', () => {
+    const old = create('Old');
+    store.deleteCheckpoint(old);
+    const cutoff = Date.now() + 1;
+
+    expect(store.purgeTrash(cutoff - 60_000)).toBe(0);
+    expect(store.purgeTrash(cutoff)).toBe(1);
+    expect(store.listTrash()).toEqual([]);
+    expect(store.undeleteCheckpoint(old)).toBeNull();
+    expect(create('New')).toBeGreaterThan(old);
+  });
+
+  it('should purge the trash of one project directory', () => {
+    const here = create('Here', { directory: '/project/a' });
+    const there = create('There', { directory: '/project/b' });
+    store.deleteCheckpoints([here, there]);
+
+    expect(store.purgeTrash(Date.now() + 1, '/project/a')).toBe(1);
+    expect(store.listTrash().map((cp) => cp.id)).toEqual([there]);
+  });
+
+  it('should count checkpoints and sessions', () => {
+    create('A');
+    create('B');
+    create('C', { sessionId: 'session-2' });
+
+    expect(store.getStats()).toEqual({ totalCheckpoints: 3, totalSessions: 2 });
+  });
+
+  it('should record lineage and keep it when the checkpoint is purged', () => {
+    const id = create('Fork point');
+
+    store.recordLineage({
+      sessionId: 'fork-1',
+      parentSessionId: 'session-1',
+      checkpointId: id,
+      checkpointName: 'Fork point',
+      gitBranch: 'checkpoint/fork-point-1',
+    });
+    store.recordLineage({
+      sessionId: 'fork-1',
+      parentSessionId: 'session-1',
+      checkpointId: id,
+      checkpointName: 'Fork point',
+      worktreePath: '/tmp/fork',
+    });
+    store.deleteCheckpoint(id);
+    expect(store.getLineage('fork-1')?.checkpointId).toBe(id);
+    store.purgeTrash(Date.now() + 1);
+
+    expect(store.listLineage()).toHaveLength(1);
+    expect(store.getLineage('fork-1')).toMatchObject({
+      parentSessionId: 'session-1',
+      checkpointId: null,
+      checkpointName: 'Fork point',
+      gitBranch: null,
+      worktreePath: '/tmp/fork',
+    });
+    expect(store.getLineage('unknown')).toBeNull();
+  });
+
+  it('should append events and list them newest first', () => {
+    store.recordEvent({ action: 'create', checkpointId: 1, checkpointName: 'A', sessionId: 'session-1', agent: 'build' });
+    store.recordEvent({
+      action: 'restore',
+      checkpointId: 1,
+      checkpointName: 'A',
+      sessionId: 'session-1',
+      forkSessionId: 'fork-1',
+      details: { mode: 'both' },
+    });
+    store.recordEvent({ action: 'delete', checkpointId: 1, success: false, error: 'pinned' });
+
+    const events = store.listEvents();
+
+    expect(events.map((e) => e.action)).toEqual(['delete', 'restore', 'create']);
+    expect(events[2]).toMatchObject({
+      checkpointName: 'A',
+      agent: 'build',
+      success: true,
+      error: null,
+      forkSessionId: null,
+      directory: null,
+      details: '{}',
+    });
+    expect(events[1]).toMatchObject({ forkSessionId: 'fork-1', details: '{"mode":"both"}' });
+    expect(events[0]).toMatchObject({ success: false, error: 'pinned', sessionId: null });
+    expect(events[0].id).toBeGreaterThan(events[1].id);
+  });
+
+  it('should filter events', () => {
+    const since = Date.now();
+    store.recordEvent({ action: 'create', checkpointId: 1, sessionId: 'session-1', directory: '/work' });
+    store.recordEvent({ action: 'restore', checkpointId: 1, sessionId: 'session-1', forkSessionId: 'fork-1', directory: '/work' });
+    store.recordEvent({ action: 'create', checkpointId: 2, sessionId: 'session-2', directory: '/other' });
+
+    expect(store.listEvents({ checkpointId: 1 })).toHaveLength(2);
+    expect(store.listEvents({ directory: '/work', action: 'create' })).toHaveLength(1);
+    expect(store.listEvents({ sessionId: 'fork-1' }).map((e) => e.action)).toEqual(['restore']);
+    expect(store.listEvents({ since })).toHaveLength(3);
+    expect(store.listEvents({ since: Date.now() + 60_000 })).toEqual([]);
+    expect(store.listEvents({ limit: 1 })[0].checkpointId).toBe(2);
+  });
+
+  it('should keep events of purged checkpoints', () => {
+    const id = create('Gone');
+    store.recordEvent({ action: 'create', checkpointId: id, checkpointName: 'Gone' });
+    store.deleteCheckpoint(id);
+    store.purgeTrash(Date.now() + 1);
+
+    expect(store.listEvents({ checkpointId: id })).toMatchObject([{ checkpointName: 'Gone' }]);
+  });
+});
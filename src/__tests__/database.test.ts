@@ -3,8 +3,9 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
 import { CheckpointDatabase } from '../database';
-import { unlinkSync, existsSync } from 'fs';
+import { unlinkSync, existsSync, mkdtempSync, rmSync } from 'fs';
 import { tmpdir } from 'os';
 import { join } from 'path';
 
@@ -40,6 +41,10 @@ describe('CheckpointDatabase', () => {
       expect(checkpoint?.messageCount).toBe(10);
       expect(checkpoint?.description).toBeNull();
       expect(checkpoint?.gitCommit).toBeNull();
+      expect(checkpoint?.gitSnapshot).toBeNull();
+      expect(checkpoint?.gitStatus).toBeNull();
+      expect(checkpoint?.autoTrigger).toBeNull();
+      expect(checkpoint?.pinned).toBe(false);
     });
 
     it('should create a checkpoint with all fields', () => {
@@ -48,13 +53,23 @@ describe('CheckpointDatabase', () => {
         name: 'Full Checkpoint',
         description: 'Before major refactor',
         messageCount: 25,
+        anchorMessageId: 'msg_abc',
         gitCommit: 'abc123def456',
+        gitSnapshot: 'fed987cba654',
+        gitStatus: {
+          branch: 'main', ahead: 1, behind: 0, dirty: true, staged: 0, modified: 3, untracked: 1
+        },
         metadata: { custom: 'value', count: 42 }
       });
 
       const checkpoint = db.getCheckpoint(checkpointId);
       expect(checkpoint?.description).toBe('Before major refactor');
+      expect(checkpoint?.gitStatus).toEqual({
+        branch: 'main', ahead: 1, behind: 0, dirty: true, staged: 0, modified: 3, untracked: 1
+      });
       expect(checkpoint?.gitCommit).toBe('abc123def456');
+      expect(checkpoint?.gitSnapshot).toBe('fed987cba654');
+      expect(checkpoint?.anchorMessageId).toBe('msg_abc');
       
       const metadata = JSON.parse(checkpoint!.metadata);
       expect(metadata.custom).toBe('value');
@@ -78,6 +93,19 @@ describe('CheckpointDatabase', () => {
     });
   });
 
+  describe('automatic checkpoints', () => {
+    it('should record the trigger of automatic checkpoints', () => {
+      const checkpointId = db.createCheckpoint({
+        sessionId: 'session-auto',
+        name: 'Before edit',
+        messageCount: 7,
+        autoTrigger: 'tool'
+      });
+
+      expect(db.getCheckpoint(checkpointId)?.autoTrigger).toBe('tool');
+    });
+  });
+
   describe('getCheckpoint', () => {
     it('should return null for non-existent checkpoint', () => {
       const checkpoint = db.getCheckpoint(999);
@@ -253,6 +281,319 @@ describe('CheckpointDatabase', () => {
     });
   });
 
+  describe('pinned checkpoints', () => {
+    it('should store the pinned flag as a boolean', () => {
+      const checkpointId = db.createCheckpoint({
+        sessionId: 'session-pin',
+        name: 'Release candidate',
+        messageCount: 40,
+        pinned: true
+      });
+
+      expect(db.getCheckpoint(checkpointId)?.pinned).toBe(true);
+      expect(db.listCheckpoints('session-pin')[0].pinned).toBe(true);
+    });
+  });
+
+  describe('tags', () => {
+    it('should store trimmed, unique tags sorted by name', () => {
+      const checkpointId = db.createCheckpoint({
+        sessionId: 'session-tags',
+        name: 'Tagged',
+        messageCount: 1,
+        tags: ['refactor', ' critical ', 'refactor', '']
+      });
+
+      expect(db.getCheckpoint(checkpointId)?.tags).toEqual(['critical', 'refactor']);
+    });
+
+    it('should return an empty list for untagged checkpoints', () => {
+      const checkpointId = db.createCheckpoint({
+        sessionId: 'session-tags',
+        name: 'Untagged',
+        messageCount: 1
+      });
+
+      expect(db.getCheckpoint(checkpointId)?.tags).toEqual([]);
+    });
+
+    it('should remove tags together with their checkpoint', () => {
+      const checkpointId = db.createCheckpoint({
+        sessionId: 'session-tags',
+        name: 'Tagged',
+        messageCount: 1,
+        tags: ['refactor']
+      });
+
+      db.deleteCheckpoint(checkpointId);
+
+      expect(db.searchCheckpoints({ tags: ['refactor'] })).toEqual([]);
+    });
+  });
+
+  describe('searchCheckpoints', () => {
+    let ids: Record<string, number>;
+
+    beforeEach(() => {
+      ids = {
+        login: db.createCheckpoint({
+          sessionId: 'session-a', name: 'Login works', messageCount: 1,
+          gitCommit: 'abc1234', tags: ['auth', 'stable'], createdAt: 1000
+        }),
+        logout: db.createCheckpoint({
+          sessionId: 'session-a', name: 'Logout 100%', messageCount: 2,
+          gitCommit: 'abd5678', tags: ['auth'], createdAt: 2000
+        }),
+        other: db.createCheckpoint({
+          sessionId: 'session-b', name: 'Other session login', messageCount: 3,
+          gitCommit: 'fff0000', tags: ['stable'], createdAt: 3000
+        })
+      };
+    });
+
+    const search = (filter: Parameters<CheckpointDatabase['searchCheckpoints']>[0]) =>
+      db.searchCheckpoints(filter).map((cp) => cp.id);
+
+    it('should return everything newest first without filters', () => {
+      expect(search({})).toEqual([ids.other, ids.logout, ids.login]);
+    });
+
+    it('should require every given tag', () => {
+      expect(search({ tags: ['auth'] })).toEqual([ids.logout, ids.login]);
+      expect(search({ tags: ['auth', 'stable'] })).toEqual([ids.login]);
+    });
+
+    it('should match name substrings case-insensitively and literally', () => {
+      expect(search({ name: 'LOGIN' })).toEqual([ids.other, ids.login]);
+      expect(search({ name: '100%' })).toEqual([ids.logout]);
+      expect(search({ name: '_' })).toEqual([]);
+    });
+
+    it('should filter by creation date range', () => {
+      expect(search({ createdAfter: 1500 })).toEqual([ids.other, ids.logout]);
+      expect(search({ createdAfter: 1500, createdBefore: 2000 })).toEqual([ids.logout]);
+    });
+
+    it('should match git commit prefixes', () => {
+      expect(search({ gitCommit: 'ab' })).toEqual([ids.logout, ids.login]);
+      expect(search({ gitCommit: 'ABC' })).toEqual([ids.login]);
+    });
+
+    it('should combine filters with the session', () => {
+      expect(search({ sessionId: 'session-a', tags: ['stable'] })).toEqual([ids.login]);
+      expect(search({ sessionId: 'session-b', name: 'login' })).toEqual([ids.other]);
+    });
+  });
+
+  describe('updateCheckpoint', () => {
+    let checkpointId: number;
+
+    beforeEach(() => {
+      checkpointId = db.createCheckpoint({
+        sessionId: 'session-edit',
+        name: 'Typo nmae',
+        description: 'Original',
+        messageCount: 12,
+        anchorMessageId: 'msg-11',
+        tags: ['draft', 'auth'],
+        metadata: { directory: '/project', reviewer: 'sam' },
+        createdAt: 1000
+      });
+    });
+
+    it('should start with updatedAt equal to createdAt', () => {
+      expect(db.getCheckpoint(checkpointId)?.updatedAt).toBe(1000);
+    });
+
+    it('should rename and keep the message position', () => {
+      const updated = db.updateCheckpoint(checkpointId, { name: 'Typo name' });
+
+      expect(updated?.name).toBe('Typo name');
+      expect(updated?.messageCount).toBe(12);
+      expect(updated?.anchorMessageId).toBe('msg-11');
+      expect(updated?.description).toBe('Original');
+      expect(updated?.createdAt).toBe(1000);
+      expect(updated?.updatedAt).toBeGreaterThan(1000);
+    });
+
+    it('should change or clear the description', () => {
+      expect(db.updateCheckpoint(checkpointId, { description: 'Better' })?.description).toBe('Better');
+      expect(db.updateCheckpoint(checkpointId, { description: '' })?.description).toBeNull();
+    });
+
+    it('should merge metadata keys', () => {
+      const updated = db.updateCheckpoint(checkpointId, { metadata: { reviewer: 'kim', ticket: 'PROJ-1' } });
+
+      expect(JSON.parse(updated!.metadata)).toEqual({
+        directory: '/project',
+        reviewer: 'kim',
+        ticket: 'PROJ-1'
+      });
+    });
+
+    it('should add and remove tags', () => {
+      const updated = db.updateCheckpoint(checkpointId, {
+        addTags: ['stable', 'auth'],
+        removeTags: ['draft', 'missing']
+      });
+
+      expect(updated?.tags).toEqual(['auth', 'stable']);
+    });
+
+    it('should return null for unknown checkpoints', () => {
+      expect(db.updateCheckpoint(999, { name: 'Nope' })).toBeNull();
+    });
+  });
+
+  describe('project directory', () => {
+    it('should store the project directory', () => {
+      const checkpointId = db.createCheckpoint({
+        sessionId: 'session-dir',
+        name: 'In project',
+        messageCount: 1,
+        directory: '/project'
+      });
+
+      expect(db.getCheckpoint(checkpointId)?.directory).toBe('/project');
+    });
+
+    it('should find checkpoints by name across the sessions of a project', () => {
+      db.createCheckpoint({ sessionId: 'session-1', name: 'Shared', messageCount: 1, directory: '/project', createdAt: 1000 });
+      const newest = db.createCheckpoint({ sessionId: 'session-2', name: 'Shared', messageCount: 2, directory: '/project', createdAt: 2000 });
+      db.createCheckpoint({ sessionId: 'session-3', name: 'Shared', messageCount: 3, directory: '/other', createdAt: 3000 });
+
+      expect(db.findProjectCheckpointByName('/project', 'Shared')?.id).toBe(newest);
+      expect(db.findProjectCheckpointByName('/project', 'Missing')).toBeNull();
+    });
+
+    it('should scope searches to a project', () => {
+      const inProject = db.createCheckpoint({ sessionId: 'session-1', name: 'A', messageCount: 1, directory: '/project' });
+      db.createCheckpoint({ sessionId: 'session-2', name: 'B', messageCount: 1, directory: '/other' });
+
+      expect(db.searchCheckpoints({ directory: '/project' }).map((cp) => cp.id)).toEqual([inProject]);
+    });
+  });
+
+  describe('audit log', () => {
+    it('should refuse to change or remove recorded events', () => {
+      db.recordEvent({ action: 'create', checkpointId: 1, checkpointName: 'A', sessionId: 'session-1' });
+
+      const raw = new Database(testDbPath);
+      try {
+        expect(() => raw.prepare("UPDATE checkpoint_events SET action = 'delete'").run())
+          .toThrow('checkpoint_events is append-only');
+        expect(() => raw.prepare('DELETE FROM checkpoint_events').run())
+          .toThrow('checkpoint_events is append-only');
+      } finally {
+        raw.close();
+      }
+
+      expect(db.listEvents()).toMatchObject([{ action: 'create', checkpointId: 1 }]);
+    });
+  });
+
+  describe('session lineage', () => {
+    it('should record and list forks', () => {
+      const checkpointId = db.createCheckpoint({
+        sessionId: 'session-parent',
+        name: 'Fork point',
+        messageCount: 5
+      });
+
+      db.recordLineage({
+        sessionId: 'session-child',
+        parentSessionId: 'session-parent',
+        checkpointId,
+        checkpointName: 'Fork point'
+      });
+
+      expect(db.getLineage('session-child')).toMatchObject({
+        parentSessionId: 'session-parent',
+        checkpointId,
+        checkpointName: 'Fork point'
+      });
+      expect(db.getLineage('session-parent')).toBeNull();
+      expect(db.listLineage().map((link) => link.sessionId)).toEqual(['session-child']);
+    });
+
+    it('should record the branch and worktree created for a fork', () => {
+      db.recordLineage({
+        sessionId: 'session-plain',
+        parentSessionId: 'session-parent',
+        checkpointId: null,
+        checkpointName: 'Fork point'
+      });
+      db.recordLineage({
+        sessionId: 'session-worktree',
+        parentSessionId: 'session-parent',
+        checkpointId: null,
+        checkpointName: 'Fork point',
+        gitBranch: 'checkpoint/fork-point-1',
+        worktreePath: '/work/app-fork-point-1'
+      });
+
+      expect(db.getLineage('session-plain')).toMatchObject({ gitBranch: null, worktreePath: null });
+      expect(db.getLineage('session-worktree')).toMatchObject({
+        gitBranch: 'checkpoint/fork-point-1',
+        worktreePath: '/work/app-fork-point-1'
+      });
+    });
+
+    it('should keep the link when the checkpoint is purged', () => {
+      const checkpointId = db.createCheckpoint({
+        sessionId: 'session-parent',
+        name: 'Fork point',
+        messageCount: 5
+      });
+      db.recordLineage({
+        sessionId: 'session-child',
+        parentSessionId: 'session-parent',
+        checkpointId,
+        checkpointName: 'Fork point'
+      });
+
+      db.deleteCheckpoint(checkpointId);
+      expect(db.getLineage('session-child')?.checkpointId).toBe(checkpointId);
+
+      db.purgeTrash(Date.now() + 1);
+      expect(db.getLineage('session-child')).toMatchObject({
+        parentSessionId: 'session-parent',
+        checkpointId: null,
+        checkpointName: 'Fork point'
+      });
+    });
+  });
+
+  describe('listAllCheckpoints', () => {
+    it('should list every checkpoint without a limit', () => {
+      for (let i = 0; i < 60; i++) {
+        db.createCheckpoint({
+          sessionId: i % 2 === 0 ? 'session-even' : 'session-odd',
+          name: `Checkpoint ${i}`,
+          messageCount: i
+        });
+      }
+
+      expect(db.listAllCheckpoints()).toHaveLength(60);
+      expect(db.listAllCheckpoints('session-even')).toHaveLength(30);
+    });
+  });
+
+  describe('deleteCheckpoints', () => {
+    it('should delete the given checkpoints and count them', () => {
+      const ids = [1, 2, 3].map((i) => db.createCheckpoint({
+        sessionId: 'session-batch',
+        name: `Checkpoint ${i}`,
+        messageCount: i
+      }));
+
+      const deleted = db.deleteCheckpoints([ids[0], ids[2], 999]);
+
+      expect(deleted).toBe(2);
+      expect(db.listCheckpoints('session-batch').map((cp) => cp.id)).toEqual([ids[1]]);
+    });
+  });
+
   describe('deleteSessionCheckpoints', () => {
     it('should delete all checkpoints for a session', () => {
       const sessionId = 'session-delete-all';
@@ -334,6 +675,18 @@ describe('CheckpointDatabase', () => {
       expect(existsSync(testDbPath)).toBe(true);
     });
 
+    it('should create the directory of a custom path', () => {
+      const dir = mkdtempSync(join(tmpdir(), 'test-db-dir-'));
+      const nestedPath = join(dir, 'nested', 'store', 'checkpoints.db');
+      try {
+        const nested = new CheckpointDatabase(nestedPath);
+        nested.close();
+        expect(existsSync(nestedPath)).toBe(true);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
     it('should handle concurrent checkpoints', () => {
       const sessionId = 'session-concurrent';
       const ids: number[] = [];
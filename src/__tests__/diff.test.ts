@@ -0,0 +1,146 @@
+/**
+ * diff.test.ts - Tests for comparing the conversation between checkpoints
+ */
+
+import { describe, it, expect } from 'vitest';
+import { summarizeMessage, conversationBetween, formatMessageSummary } from '../diff';
+import type { Checkpoint } from '../database';
+import type { SessionMessage } from '../restore';
+
+function checkpoint(overrides: Partial<Checkpoint>): Checkpoint {
+  return {
+    id: 1,
+    sessionId: 'session-1',
+    name: 'CP',
+    description: null,
+    messageCount: 0,
+    anchorMessageId: null,
+    gitCommit: null,
+    gitSnapshot: null,
+    autoTrigger: null,
+    pinned: false,
+    createdAt: 0,
+    metadata: '{}',
+    ...overrides
+  };
+}
+
+const messages: SessionMessage[] = Array.from({ length: 8 }, (_, i) => ({
+  id: `msg-${i}`,
+  role: i % 2 === 0 ? 'user' : 'assistant',
+  content: [{ type: 'text', text: `Message ${i}` }]
+}));
+
+describe('summarizeMessage', () => {
+  it('should collect role, tool calls and text', () => {
+    const summary = summarizeMessage({
+      id: 'msg-1',
+      role: 'assistant',
+      content: [
+        { type: 'text', text: 'Refactoring the\n  service' },
+        { type: 'tool', tool: 'edit', state: {} },
+        { type: 'tool', tool: 'bash', state: {} },
+        { type: 'step-start' }
+      ]
+    }, 3);
+
+    expect(summary).toEqual({
+      position: 3,
+      id: 'msg-1',
+      role: 'assistant',
+      tools: ['edit', 'bash'],
+      excerpt: 'Refactoring the service'
+    });
+  });
+
+  it('should shorten long text', () => {
+    const summary = summarizeMessage({
+      id: 'msg-1',
+      content: [{ type: 'text', text: 'x'.repeat(200) }]
+    }, 1);
+
+    expect(summary.excerpt).toHaveLength(80);
+    expect(summary.excerpt.endsWith('…')).toBe(true);
+    expect(summary.role).toBe('unknown');
+  });
+
+  it('should accept plain string content', () => {
+    expect(summarizeMessage({ id: 'm', content: 'hello' }, 1).excerpt).toBe('hello');
+  });
+});
+
+describe('conversationBetween', () => {
+  it('should list messages after the first checkpoint up to the second', () => {
+    const from = checkpoint({ name: 'From', anchorMessageId: 'msg-2', messageCount: 3 });
+    const to = checkpoint({ name: 'To', anchorMessageId: 'msg-5', messageCount: 6 });
+
+    const diff = conversationBetween(messages, from, to);
+
+    expect('error' in diff).toBe(false);
+    if ('error' in diff) return;
+    expect(diff.swapped).toBe(false);
+    expect(diff.messages.map((m) => m.id)).toEqual(['msg-3', 'msg-4', 'msg-5']);
+    expect(diff.messages[0].position).toBe(4);
+  });
+
+  it('should swap checkpoints given newest first', () => {
+    const from = checkpoint({ messageCount: 6 });
+    const to = checkpoint({ messageCount: 3 });
+
+    const diff = conversationBetween(messages, from, to);
+
+    if ('error' in diff) throw new Error(diff.error);
+    expect(diff.swapped).toBe(true);
+    expect(diff.messages.map((m) => m.id)).toEqual(['msg-3', 'msg-4', 'msg-5']);
+  });
+
+  it('should be empty for checkpoints at the same message', () => {
+    const cp = checkpoint({ anchorMessageId: 'msg-4' });
+
+    const diff = conversationBetween(messages, cp, cp);
+
+    if ('error' in diff) throw new Error(diff.error);
+    expect(diff.messages).toEqual([]);
+  });
+
+  it('should report a missing anchor', () => {
+    const from = checkpoint({ name: 'Gone', anchorMessageId: 'msg-reverted' });
+    const to = checkpoint({ anchorMessageId: 'msg-5' });
+
+    const diff = conversationBetween(messages, from, to);
+
+    expect(diff).toEqual({ error: expect.stringContaining('Gone: Anchor message msg-reverted') });
+  });
+
+  it('should refuse checkpoints from different sessions', () => {
+    const diff = conversationBetween(
+      messages,
+      checkpoint({ sessionId: 'a' }),
+      checkpoint({ sessionId: 'b' })
+    );
+
+    expect(diff).toEqual({ error: 'Checkpoints belong to different sessions' });
+  });
+});
+
+describe('formatMessageSummary', () => {
+  it('should show position, role, tools and excerpt', () => {
+    expect(formatMessageSummary({
+      position: 12,
+      id: 'msg-12',
+      role: 'assistant',
+      tools: ['edit'],
+      excerpt: 'Done'
+    })).toBe('  12. assistant [edit]: "Done"');
+  });
+
+  it('should omit empty parts', () => {
+    expect(formatMessageSummary({
+      position: 1,
+      id: 'msg-1',
+      role: 'user',
+      tools: [],
+      excerpt: ''
+    })).toBe('  1. user');
+  });
+});
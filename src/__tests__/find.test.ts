@@ -0,0 +1,55 @@
+/**
+ * find.test.ts - Tests for full-text search helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { conversationExcerpt, highlight, queryTerms, toFtsQuery } from '../find';
+
+describe('conversationExcerpt', () => {
+  it('should join the text of the last messages', () => {
+    const messages = Array.from({ length: 8 }, (_, i) => ({
+      id: `msg-${i}`,
+      content: [
+        { type: 'text', text: `Message  ${i}\n` },
+        { type: 'tool', tool: 'edit', state: { output: 'not indexed' } }
+      ]
+    }));
+
+    expect(conversationExcerpt(messages)).toBe('Message 2 Message 3 Message 4 Message 5 Message 6 Message 7');
+  });
+
+  it('should keep the end of long conversations', () => {
+    const excerpt = conversationExcerpt([{ id: 'msg-1', content: `${'a '.repeat(2000)}the end` }])!;
+
+    expect(excerpt).toHaveLength(2000);
+    expect(excerpt.startsWith('…')).toBe(true);
+    expect(excerpt.endsWith('the end')).toBe(true);
+  });
+
+  it('should skip conversations without text', () => {
+    expect(conversationExcerpt([])).toBeUndefined();
+  });
+});
+
+describe('queryTerms', () => {
+  it('should drop common words and duplicates', () => {
+    expect(queryTerms('Where did we decide on GraphQL? graphql!')).toEqual(['decide', 'graphql']);
+  });
+
+  it('should keep common words when nothing else is left', () => {
+    expect(queryTerms('what was it')).toEqual(['what', 'was', 'it']);
+  });
+
+  it('should quote terms as prefixes for FTS5', () => {
+    expect(toFtsQuery(['decide', 'graphql'])).toBe('"decide"* OR "graphql"*');
+  });
+});
+
+describe('highlight', () => {
+  it('should mark matches in the best window of words', () => {
+    const text = 'one two three four five six seven GraphQL eight nine ten';
+
+    expect(highlight(text, ['graphql'], 3)).toBe('…seven **GraphQL** eight…');
+    expect(highlight('short text', ['text'])).toBe('short **text**');
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * fingerprint.test.ts - Tests for conversation integrity fingerprints
+ */
+
+import { describe, it, expect } from 'vitest';
+import { describePrefixCheck, fingerprintMessages, verifyFingerprint } from '../fingerprint';
+import type { SessionMessage } from '../restore';
+
+const conversation = (): SessionMessage[] =>
+  Array.from({ length: 6 }, (_, i) => ({
+    id: `msg-${i}`,
+    role: i % 2 === 0 ? 'user' : 'assistant',
+    content: [
+      { type: 'text', text: `Message ${i}`, time: { start: i } },
+      { type: 'tool', tool: 'edit', callID: `call-${i}`, state: { status: 'completed', input: { i }, output: 'ok' } }
+    ]
+  }));
+
+describe('verifyFingerprint', () => {
+  it('should accept the same conversation with messages added after the checkpoint', () => {
+    const messages = conversation();
+    const fingerprint = fingerprintMessages(messages, 4);
+
+    expect(verifyFingerprint(fingerprint, messages)).toEqual({ status: 'intact' });
+    expect(verifyFingerprint(fingerprint, messages.slice(0, 4))).toEqual({ status: 'intact' });
+  });
+
+  it('should ignore timing, tool output and the anchor still streaming', () => {
+    const messages = conversation();
+    const fingerprint = fingerprintMessages(messages, 4);
+
+    const later = conversation();
+    later[1].content[0].time = { start: 99, end: 100 };
+    later[1].content[1].state.output = 'different output';
+    later[3].content.push({ type: 'text', text: 'streamed after the checkpoint' });
+
+    expect(verifyFingerprint(fingerprint, later)).toEqual({ status: 'intact' });
+  });
+
+  it('should report the first message that differs', () => {
+    const fingerprint = fingerprintMessages(conversation(), 5);
+
+    const edited = conversation();
+    edited[2].content[0].text = 'Edited';
+    const regenerated = conversation();
+    regenerated[3] = { ...regenerated[3], id: 'msg-3-retry' };
+
+    expect(verifyFingerprint(fingerprint, edited)).toEqual({ status: 'diverged', position: 3 });
+    expect(verifyFingerprint(fingerprint, regenerated)).toEqual({ status: 'diverged', position: 4 });
+  });
+
+  it('should report a truncated conversation', () => {
+    const messages = conversation();
+    const fingerprint = fingerprintMessages(messages, 5);
+
+    expect(verifyFingerprint(fingerprint, messages.slice(0, 2))).toEqual({
+      status: 'truncated',
+      available: 2,
+      expected: 5
+    });
+  });
+
+  it('should skip fingerprints of unknown versions', () => {
+    expect(verifyFingerprint('9:abcdef', conversation())).toBeUndefined();
+  });
+});
+
+describe('describePrefixCheck', () => {
+  it('should name the diverging message', () => {
+    expect(describePrefixCheck({ status: 'diverged', position: 3 })).toContain('diverged at message 3');
+    expect(describePrefixCheck({ status: 'truncated', available: 2, expected: 5 }))
+      .toContain('2 of the 5 messages');
+  });
+});
@@ -0,0 +1,324 @@
+/**
+ * git.test.ts - Tests for git working tree helpers
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { GitRepository, summarizeStatus } from '../git';
+import { execFileSync } from 'child_process';
+import { mkdtempSync, rmSync, writeFileSync, readFileSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+describe('GitRepository', () => {
+  let repoDir: string;
+  let repo: GitRepository;
+
+  const git = (...args: string[]): string =>
+    execFileSync('git', args, { cwd: repoDir, encoding: 'utf8' }).trim();
+
+  beforeEach(() => {
+    repoDir = mkdtempSync(join(tmpdir(), 'test-git-'));
+    git('init', '-q');
+    git('config', 'user.name', 'Test');
+    git('config', 'user.email', 'test@example.com');
+    writeFileSync(join(repoDir, 'tracked.txt'), 'original\n');
+    writeFileSync(join(repoDir, '.gitignore'), 'ignored.txt\n');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'initial');
+    repo = new GitRepository(repoDir);
+  });
+
+  afterEach(() => {
+    rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  describe('head', () => {
+    it('should return the current commit', () => {
+      expect(repo.head()).toBe(git('rev-parse', 'HEAD'));
+    });
+
+    it('should return undefined outside a repository', () => {
+      const plainDir = mkdtempSync(join(tmpdir(), 'test-plain-'));
+      try {
+        const plain = new GitRepository(plainDir);
+        expect(plain.isRepository()).toBe(false);
+        expect(plain.head()).toBeUndefined();
+      } finally {
+        rmSync(plainDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('snapshot', () => {
+    it('should return undefined when the working tree is clean', () => {
+      expect(repo.snapshot()).toBeUndefined();
+    });
+
+    it('should capture modified and untracked files', () => {
+      writeFileSync(join(repoDir, 'tracked.txt'), 'modified\n');
+      writeFileSync(join(repoDir, 'new.txt'), 'untracked\n');
+      writeFileSync(join(repoDir, 'ignored.txt'), 'ignored\n');
+
+      const snapshot = repo.snapshot();
+
+      expect(snapshot).toMatch(/^[a-f0-9]{40}$/);
+      expect(git('show', `${snapshot}:tracked.txt`)).toBe('modified');
+      expect(git('show', `${snapshot}:new.txt`)).toBe('untracked');
+      expect(git('ls-tree', '--name-only', snapshot!)).not.toContain('ignored.txt');
+      expect(git('rev-parse', `${snapshot}^`)).toBe(repo.head());
+    });
+
+    it('should leave untracked files out when requested', () => {
+      writeFileSync(join(repoDir, 'new.txt'), 'untracked\n');
+      expect(repo.snapshot({ includeUntracked: false })).toBeUndefined();
+
+      writeFileSync(join(repoDir, 'tracked.txt'), 'modified\n');
+      const snapshot = repo.snapshot({ includeUntracked: false });
+      expect(git('ls-tree', '--name-only', snapshot!)).not.toContain('new.txt');
+    });
+
+    it('should not touch the index, working tree or stash', () => {
+      writeFileSync(join(repoDir, 'tracked.txt'), 'modified\n');
+      writeFileSync(join(repoDir, 'new.txt'), 'untracked\n');
+      const statusBefore = git('status', '--porcelain');
+
+      repo.snapshot();
+
+      expect(git('status', '--porcelain')).toBe(statusBefore);
+      expect(readFileSync(join(repoDir, 'tracked.txt'), 'utf8')).toBe('modified\n');
+      expect(git('stash', 'list')).toBe('');
+    });
+
+    it('should keep the snapshot reachable through a private ref', () => {
+      writeFileSync(join(repoDir, 'tracked.txt'), 'modified\n');
+      const snapshot = repo.snapshot()!;
+
+      expect(git('rev-parse', repo.snapshotRef(snapshot))).toBe(snapshot);
+      expect(repo.snapshotRef(snapshot)).toBe(`refs/checkpoints/${snapshot}`);
+    });
+
+    it('should let go of a snapshot when its ref is deleted', () => {
+      writeFileSync(join(repoDir, 'tracked.txt'), 'modified\n');
+      const snapshot = repo.snapshot()!;
+
+      repo.deleteSnapshotRef(snapshot);
+      repo.deleteSnapshotRef(snapshot);
+
+      expect(git('for-each-ref', 'refs/checkpoints/')).toBe('');
+    });
+
+    it('should work before the first commit', () => {
+      const emptyDir = mkdtempSync(join(tmpdir(), 'test-empty-git-'));
+      try {
+        execFileSync('git', ['init', '-q'], { cwd: emptyDir });
+        writeFileSync(join(emptyDir, 'file.txt'), 'content\n');
+
+        const emptyRepo = new GitRepository(emptyDir);
+        const snapshot = emptyRepo.snapshot();
+
+        expect(snapshot).toMatch(/^[a-f0-9]{40}$/);
+        expect(existsSync(join(emptyDir, '.git', 'index'))).toBe(false);
+      } finally {
+        rmSync(emptyDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('isDirty', () => {
+    it('should detect modified and untracked files', () => {
+      expect(repo.isDirty()).toBe(false);
+
+      writeFileSync(join(repoDir, 'new.txt'), 'untracked\n');
+      expect(repo.isDirty()).toBe(true);
+    });
+
+    it('should ignore ignored files', () => {
+      writeFileSync(join(repoDir, 'ignored.txt'), 'ignored\n');
+      expect(repo.isDirty()).toBe(false);
+    });
+  });
+
+  describe('status', () => {
+    it('should report a clean tree on the current branch', () => {
+      const status = repo.status();
+
+      expect(status).toMatchObject({
+        branch: git('rev-parse', '--abbrev-ref', 'HEAD'),
+        ahead: null,
+        behind: null,
+        dirty: false
+      });
+      expect(summarizeStatus(status)).toBe('clean');
+    });
+
+    it('should count staged, modified and untracked files', () => {
+      writeFileSync(join(repoDir, 'tracked.txt'), 'staged');
+      git('add', 'tracked.txt');
+      writeFileSync(join(repoDir, 'tracked.txt'), 'staged and modified');
+      writeFileSync(join(repoDir, 'new.txt'), 'untracked');
+      writeFileSync(join(repoDir, 'other.txt'), 'untracked');
+      writeFileSync(join(repoDir, 'ignored.txt'), 'ignored');
+
+      const status = repo.status();
+
+      expect(status).toMatchObject({ dirty: true, staged: 1, modified: 1, untracked: 2 });
+      expect(summarizeStatus(status)).toBe('1 modified, 1 staged, 2 untracked');
+    });
+
+    it('should report a detached HEAD without a branch', () => {
+      git('checkout', '-q', '--detach');
+      expect(repo.status().branch).toBeNull();
+    });
+
+    it('should count commits ahead of and behind the upstream', () => {
+      const cloneDir = mkdtempSync(join(tmpdir(), 'test-git-clone-'));
+      try {
+        execFileSync('git', ['clone', '-q', repoDir, cloneDir]);
+        const inClone = (...args: string[]) =>
+          execFileSync('git', args, { cwd: cloneDir, encoding: 'utf8' });
+        inClone('config', 'user.name', 'Test');
+        inClone('config', 'user.email', 'test@example.com');
+
+        writeFileSync(join(repoDir, 'tracked.txt'), 'upstream change');
+        git('commit', '-q', '-am', 'upstream');
+        inClone('fetch', '-q');
+        writeFileSync(join(cloneDir, 'local.txt'), 'local');
+        inClone('add', 'local.txt');
+        inClone('commit', '-q', '-m', 'local 1');
+        writeFileSync(join(cloneDir, 'local.txt'), 'local 2');
+        inClone('commit', '-q', '-am', 'local 2');
+
+        expect(new GitRepository(cloneDir).status()).toMatchObject({ ahead: 2, behind: 1 });
+      } finally {
+        rmSync(cloneDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('stash', () => {
+    it('should set aside tracked and untracked changes', () => {
+      writeFileSync(join(repoDir, 'tracked.txt'), 'modified\n');
+      writeFileSync(join(repoDir, 'new.txt'), 'untracked\n');
+
+      const stash = repo.stash('test stash');
+
+      expect(stash).toBe(git('rev-parse', 'stash@{0}'));
+      expect(repo.isDirty()).toBe(false);
+      expect(git('stash', 'list')).toContain('test stash');
+    });
+  });
+
+  describe('restoreTree', () => {
+    it('should report and restore the files of a snapshot', () => {
+      writeFileSync(join(repoDir, 'tracked.txt'), 'modified\n');
+      writeFileSync(join(repoDir, 'new.txt'), 'untracked\n');
+      const snapshot = repo.snapshot()!;
+      git('checkout', '-q', '--', 'tracked.txt');
+      rmSync(join(repoDir, 'new.txt'));
+
+      const changes = repo.changedFiles(snapshot);
+      expect(changes).toEqual([
+        { status: 'added', path: 'new.txt' },
+        { status: 'modified', path: 'tracked.txt' },
+      ]);
+
+      repo.restoreTree(snapshot);
+
+      expect(readFileSync(join(repoDir, 'tracked.txt'), 'utf8')).toBe('modified\n');
+      expect(readFileSync(join(repoDir, 'new.txt'), 'utf8')).toBe('untracked\n');
+      // HEAD stays put; the restored state shows up as uncommitted changes
+      expect(git('diff', '--cached', '--name-only')).toBe('');
+      expect(git('diff', '--name-only')).toBe('tracked.txt');
+      expect(git('ls-files', '--others', '--exclude-standard')).toBe('new.txt');
+    });
+
+    it('should remove files that did not exist at the target', () => {
+      const initial = repo.head()!;
+      writeFileSync(join(repoDir, 'later.txt'), 'later\n');
+      git('add', 'later.txt');
+      git('commit', '-q', '-m', 'later');
+
+      expect(repo.changedFiles(initial)).toEqual([{ status: 'deleted', path: 'later.txt' }]);
+
+      repo.restoreTree(initial);
+
+      expect(existsSync(join(repoDir, 'later.txt'))).toBe(false);
+      expect(repo.hasCommit(initial)).toBe(true);
+      expect(repo.hasCommit('0'.repeat(40))).toBe(false);
+    });
+  });
+
+  describe('diff', () => {
+    it('should show a diff stat between two commits', () => {
+      const from = repo.head()!;
+      writeFileSync(join(repoDir, 'tracked.txt'), 'changed\n');
+      const to = repo.snapshot()!;
+
+      const stat = repo.diff(from, to);
+
+      expect(stat).toContain('tracked.txt');
+      expect(stat).toContain('1 file changed');
+      expect(stat).not.toContain('+changed');
+    });
+
+    it('should include the full patch when requested', () => {
+      const from = repo.head()!;
+      writeFileSync(join(repoDir, 'tracked.txt'), 'changed\n');
+      const to = repo.snapshot()!;
+
+      const patch = repo.diff(from, to, { patch: true });
+
+      expect(patch).toContain('1 file changed');
+      expect(patch).toContain('-original');
+      expect(patch).toContain('+changed');
+    });
+
+    it('should never read a commit argument as an option', () => {
+      const target = join(repoDir, 'overwritten.txt');
+      const from = repo.head()!;
+
+      expect(() => repo.diff(from, `--output=${target}`)).toThrow();
+      expect(() => repo.changedFiles(`--output=${target}`)).toThrow();
+      expect(() => repo.restoreTree(`--output=${target}`)).toThrow();
+      expect(existsSync(target)).toBe(false);
+    });
+  });
+
+  describe('bundles', () => {
+    it('should carry snapshot refs into another clone', () => {
+      writeFileSync(join(repoDir, 'tracked.txt'), 'modified\n');
+      const snapshot = repo.snapshot()!;
+      const bundle = repo.createBundle([repo.snapshotRef(snapshot)]);
+
+      const cloneDir = mkdtempSync(join(tmpdir(), 'test-git-clone-'));
+      try {
+        execFileSync('git', ['clone', '-q', '--no-local', repoDir, cloneDir]);
+        const clone = new GitRepository(cloneDir);
+        expect(clone.hasCommit(snapshot)).toBe(false);
+
+        expect(clone.fetchBundle(bundle)).toEqual([repo.snapshotRef(snapshot)]);
+        expect(clone.hasCommit(snapshot)).toBe(true);
+      } finally {
+        rmSync(cloneDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should refuse a bundle whose history is missing', () => {
+      writeFileSync(join(repoDir, 'tracked.txt'), 'modified\n');
+      const snapshot = repo.snapshot()!;
+      // Make the base commit look like it is on a remote so it is left out
+      git('update-ref', 'refs/remotes/origin/main', 'HEAD');
+      const bundle = repo.createBundle([repo.snapshotRef(snapshot)]);
+
+      const otherDir = mkdtempSync(join(tmpdir(), 'test-git-other-'));
+      try {
+        execFileSync('git', ['init', '-q'], { cwd: otherDir });
+        expect(() => new GitRepository(otherDir).fetchBundle(bundle)).toThrow(
+          /needs commits this repository does not have/
+        );
+      } finally {
+        rmSync(otherDir, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -11,12 +11,27 @@ import { join } from 'path';
 const mockDatabase = {
   createCheckpoint: vi.fn(),
   getCheckpoint: vi.fn(),
+  updateCheckpoint: vi.fn(),
   listCheckpoints: vi.fn(),
+  listAllCheckpoints: vi.fn(),
   findCheckpointByName: vi.fn(),
+  findProjectCheckpointByName: vi.fn(),
   deleteCheckpoint: vi.fn(),
+  deleteCheckpoints: vi.fn(),
+  searchCheckpoints: vi.fn(),
+  findCheckpoints: vi.fn(),
+  recordLineage: vi.fn(),
+  getLineage: vi.fn(),
+  listLineage: vi.fn(),
   deleteSessionCheckpoints: vi.fn(),
+  listTrash: vi.fn(),
+  undeleteCheckpoint: vi.fn(),
+  purgeTrash: vi.fn(),
+  recordEvent: vi.fn(),
+  listEvents: vi.fn(),
   getStats: vi.fn(),
   getPath: vi.fn(),
+  getSchemaVersion: vi.fn(),
   close: vi.fn()
 };
 
@@ -0,0 +1,117 @@
+/**
+ * jsonl.test.ts - Tests for the JSON-lines checkpoint store
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { JsonlCheckpointStore } from '../jsonl';
+import { existsSync, mkdtempSync, readFileSync, rmSync, utimesSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+describe('JsonlCheckpointStore', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'test-jsonl-'));
+    path = join(dir, 'nested', 'checkpoints.jsonl');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should keep checkpoints and lineage across reopening', () => {
+    const store = new JsonlCheckpointStore(path);
+    const id = store.createCheckpoint({
+      sessionId: 'session-1',
+      name: 'Saved',
+      messageCount: 4,
+      tags: ['kept'],
+      metadata: { source: 'test' },
+    });
+    store.recordLineage({ sessionId: 'fork-1', parentSessionId: 'session-1', checkpointId: id, checkpointName: 'Saved' });
+
+    const reopened = new JsonlCheckpointStore(path);
+
+    expect(reopened.getCheckpoint(id)).toEqual(store.getCheckpoint(id));
+    expect(reopened.getLineage('fork-1')?.checkpointId).toBe(id);
+  });
+
+  it('should keep the audit log across reopening', () => {
+    const store = new JsonlCheckpointStore(path);
+    store.recordEvent({ action: 'restore', checkpointId: 1, forkSessionId: 'fork-1', details: { mode: 'files' } });
+
+    const lines = readFileSync(path, 'utf-8').trim().split('\n').map((line) => JSON.parse(line));
+    const reopened = new JsonlCheckpointStore(path);
+
+    expect(lines[1]).toMatchObject({ type: 'event', action: 'restore', details: { mode: 'files' } });
+    expect(reopened.listEvents()).toEqual(store.listEvents());
+  });
+
+  it('should write one readable line per record', () => {
+    const store = new JsonlCheckpointStore(path);
+    store.createCheckpoint({ sessionId: 'session-1', name: 'A', messageCount: 1, metadata: { n: 1 } });
+
+    const lines = readFileSync(path, 'utf-8').trim().split('\n').map((line) => JSON.parse(line));
+
+    expect(lines[0]).toEqual({ type: 'store', format: 'opencode-checkpoints', version: 1, nextId: 2 });
+    expect(lines[1]).toMatchObject({ type: 'checkpoint', id: 1, name: 'A', metadata: { n: 1 } });
+    expect(existsSync(`${path}.${process.pid}.tmp`)).toBe(false);
+  });
+
+  it('should see changes made by another instance', () => {
+    const first = new JsonlCheckpointStore(path);
+    const second = new JsonlCheckpointStore(path);
+
+    const id = first.createCheckpoint({ sessionId: 'session-1', name: 'From first', messageCount: 1 });
+    const other = second.createCheckpoint({ sessionId: 'session-1', name: 'From second', messageCount: 1 });
+
+    expect(other).not.toBe(id);
+    expect(first.listCheckpoints('session-1').map((cp) => cp.name)).toEqual(['From second', 'From first']);
+  });
+
+  it('should hold a lock file only while writing', () => {
+    const store = new JsonlCheckpointStore(path);
+    store.createCheckpoint({ sessionId: 'session-1', name: 'A', messageCount: 1 });
+
+    expect(existsSync(`${path}.lock`)).toBe(false);
+  });
+
+  it('should take over a lock left behind by a crashed process', () => {
+    const store = new JsonlCheckpointStore(path);
+    const lock = `${path}.lock`;
+    writeFileSync(lock, '');
+    const old = (Date.now() - 60_000) / 1000;
+    utimesSync(lock, old, old);
+
+    store.createCheckpoint({ sessionId: 'session-1', name: 'A', messageCount: 1 });
+
+    expect(new JsonlCheckpointStore(path).listAllCheckpoints()).toHaveLength(1);
+    expect(existsSync(lock)).toBe(false);
+  });
+
+  it('should not reuse IDs after the newest checkpoint is deleted', () => {
+    const store = new JsonlCheckpointStore(path);
+    const id = store.createCheckpoint({ sessionId: 'session-1', name: 'Gone', messageCount: 1 });
+    store.deleteCheckpoint(id);
+
+    const reopened = new JsonlCheckpointStore(path);
+
+    expect(reopened.createCheckpoint({ sessionId: 'session-1', name: 'New', messageCount: 1 })).toBe(id + 1);
+  });
+
+  it('should name the corrupt line', () => {
+    new JsonlCheckpointStore(path).createCheckpoint({ sessionId: 'session-1', name: 'A', messageCount: 1 });
+    writeFileSync(path, readFileSync(path, 'utf-8') + '{"type":"checkpoint",\n');
+
+    expect(() => new JsonlCheckpointStore(path)).toThrow('line 3 is not valid JSON');
+  });
+
+  it('should refuse files from a newer version', () => {
+    new JsonlCheckpointStore(path);
+    writeFileSync(path, JSON.stringify({ type: 'store', format: 'opencode-checkpoints', version: 99, nextId: 1 }) + '\n');
+
+    expect(() => new JsonlCheckpointStore(path)).toThrow('written by a newer version');
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * migrations.test.ts - Tests for schema migrations
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { CheckpointDatabase } from '../database';
+import {
+  migrate,
+  getSchemaVersion,
+  SchemaVersionError,
+  SCHEMA_VERSION,
+  MIGRATIONS,
+  type Migration
+} from '../migrations';
+import { mkdtempSync, rmSync, readdirSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// Schema exactly as shipped in v1.1.0 (no user_version set)
+const V1_1_0_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS checkpoints (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    session_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    description TEXT,
+    message_count INTEGER NOT NULL,
+    git_commit TEXT,
+    created_at INTEGER NOT NULL,
+    metadata TEXT NOT NULL DEFAULT '{}'
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_checkpoints_session
+    ON checkpoints(session_id, created_at DESC);
+
+  CREATE INDEX IF NOT EXISTS idx_checkpoints_name
+    ON checkpoints(session_id, name);
+`;
+
+describe('migrations', () => {
+  let dir: string;
+  let dbPath: string;
+
+  const createV110Database = (): void => {
+    const legacy = new Database(dbPath);
+    legacy.exec(V1_1_0_SCHEMA);
+    legacy.prepare(`
+      INSERT INTO checkpoints (session_id, name, description, message_count, git_commit, created_at, metadata)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run('ses_old', 'Before Refactor', 'legacy row', 12, 'abc123', 1700000000000, '{"directory":"/work"}');
+    legacy.close();
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'test-migrations-'));
+    dbPath = join(dir, 'checkpoints.db');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('fresh database', () => {
+    it('should create the latest schema', () => {
+      const db = new CheckpointDatabase(dbPath);
+      expect(db.getSchemaVersion()).toBe(SCHEMA_VERSION);
+      db.close();
+    });
+
+    it('should not write a backup', () => {
+      new CheckpointDatabase(dbPath).close();
+      expect(readdirSync(dir).filter((f) => f.endsWith('.bak'))).toHaveLength(0);
+    });
+
+    it('should be a no-op when reopened', () => {
+      new CheckpointDatabase(dbPath).close();
+
+      const raw = new Database(dbPath);
+      const result = migrate(raw, dbPath);
+      raw.close();
+
+      expect(result).toEqual({ from: SCHEMA_VERSION, to: SCHEMA_VERSION });
+    });
+  });
+
+  describe('upgrading from v1.1.0', () => {
+    it('should keep existing checkpoints', () => {
+      createV110Database();
+
+      const db = new CheckpointDatabase(dbPath);
+      const [checkpoint] = db.listCheckpoints('ses_old');
+      db.close();
+
+      expect(checkpoint.name).toBe('Before Refactor');
+      expect(checkpoint.description).toBe('legacy row');
+      expect(checkpoint.messageCount).toBe(12);
+      expect(checkpoint.gitCommit).toBe('abc123');
+      expect(checkpoint.gitStatus).toBeNull();
+      expect(JSON.parse(checkpoint.metadata).directory).toBe('/work');
+    });
+
+    it('should copy the project directory out of metadata', () => {
+      createV110Database();
+
+      const db = new CheckpointDatabase(dbPath);
+      const [checkpoint] = db.listCheckpoints('ses_old');
+      db.close();
+
+      expect(checkpoint.directory).toBe('/work');
+      expect(checkpoint.updatedAt).toBe(checkpoint.createdAt);
+    });
+
+    it('should turn metadata tags into tag rows', () => {
+      createV110Database();
+      const legacy = new Database(dbPath);
+      legacy.prepare(`
+        INSERT INTO checkpoints (session_id, name, message_count, created_at, metadata)
+        VALUES (?, ?, ?, ?, ?)
+      `).run('ses_old', 'Tagged', 3, 1700000001000, '{"tags":["refactor"," critical",42]}');
+      legacy.close();
+
+      const db = new CheckpointDatabase(dbPath);
+      const [tagged, untagged] = db.listCheckpoints('ses_old');
+      db.close();
+
+      expect(tagged.tags).toEqual(['critical', 'refactor']);
+      expect(untagged.tags).toEqual([]);
+    });
+
+    it('should index existing checkpoints for full-text search', () => {
+      createV110Database();
+
+      const db = new CheckpointDatabase(dbPath);
+      const [match] = db.findCheckpoints({ text: 'refactor' });
+      db.close();
+
+      expect(match.checkpoint.name).toBe('Before Refactor');
+      expect(match.checkpoint.excerpt).toBeNull();
+    });
+
+    it('should run every migration and record the version', () => {
+      createV110Database();
+
+      const raw = new Database(dbPath);
+      expect(getSchemaVersion(raw)).toBe(0);
+
+      const result = migrate(raw, dbPath);
+      const columns = (raw.pragma('table_info(checkpoints)') as Array<{ name: string }>)
+        .map((c) => c.name);
+      const version = getSchemaVersion(raw);
+      raw.close();
+
+      expect(result.from).toBe(0);
+      expect(result.to).toBe(SCHEMA_VERSION);
+      expect(version).toBe(SCHEMA_VERSION);
+      expect(columns).toContain('anchor_message_id');
+      expect(columns).toContain('git_snapshot');
+    });
+
+    it('should back up the database before migrating', () => {
+      createV110Database();
+
+      const raw = new Database(dbPath);
+      const result = migrate(raw, dbPath);
+      raw.close();
+
+      expect(result.backupPath).toMatch(/checkpoints\.db\.v0\.\d+\.bak$/);
+      expect(existsSync(result.backupPath!)).toBe(true);
+
+      const backup = new Database(result.backupPath!, { readonly: true });
+      const columns = (backup.pragma('table_info(checkpoints)') as Array<{ name: string }>)
+        .map((c) => c.name);
+      const rows = backup.prepare('SELECT COUNT(*) as count FROM checkpoints').get() as { count: number };
+      backup.close();
+
+      expect(columns).not.toContain('git_snapshot');
+      expect(rows.count).toBe(1);
+    });
+
+    it('should accept new checkpoints after upgrading', () => {
+      createV110Database();
+
+      const db = new CheckpointDatabase(dbPath);
+      const id = db.createCheckpoint({
+        sessionId: 'ses_old',
+        name: 'After Upgrade',
+        messageCount: 20,
+        anchorMessageId: 'msg_20',
+        gitSnapshot: 'def456'
+      });
+      const checkpoint = db.getCheckpoint(id);
+      db.close();
+
+      expect(checkpoint?.anchorMessageId).toBe('msg_20');
+      expect(checkpoint?.gitSnapshot).toBe('def456');
+    });
+  });
+
+  describe('newer databases', () => {
+    it('should refuse a database written by a newer plugin version', () => {
+      const newer = new Database(dbPath);
+      newer.pragma(`user_version = ${SCHEMA_VERSION + 1}`);
+      newer.close();
+
+      expect(() => new CheckpointDatabase(dbPath)).toThrow(SchemaVersionError);
+      expect(() => new CheckpointDatabase(dbPath)).toThrow(/schema version/);
+    });
+  });
+
+  describe('failed migrations', () => {
+    it('should roll back the failing step and keep earlier ones', () => {
+      const failing: Migration[] = [
+        ...MIGRATIONS,
+        {
+          version: SCHEMA_VERSION + 1,
+          description: 'Broken step',
+          up(db) {
+            db.exec('CREATE TABLE half_done (id INTEGER)');
+            throw new Error('boom');
+          }
+        }
+      ];
+
+      const raw = new Database(dbPath);
+      expect(() => migrate(raw, dbPath, failing)).toThrow('boom');
+
+      const version = getSchemaVersion(raw);
+      const halfDone = raw
+        .prepare("SELECT name FROM sqlite_master WHERE name = 'half_done'")
+        .get();
+      raw.close();
+
+      expect(version).toBe(SCHEMA_VERSION);
+      expect(halfDone).toBeUndefined();
+    });
+  });
+
+  it('should keep migration versions strictly increasing', () => {
+    const versions = MIGRATIONS.map((m) => m.version);
+    expect(versions).toEqual([...versions].sort((a, b) => a - b));
+    expect(new Set(versions).size).toBe(versions.length);
+  });
+});
@@ -0,0 +1,370 @@
+/**
+ * plugin.test.ts - Tests for the plugin's tool handlers and event hook
+ *
+ * Runs the plugin against an in-memory store and a fake OpenCode client,
+ * outside of any git repository.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { PluginInput, ToolContext } from '@opencode-ai/plugin';
+import { MemoryCheckpointStore } from '../memory';
+import { openStore } from '../store';
+import { GitRepository } from '../git';
+import plugin from '../index';
+import { execFileSync } from 'child_process';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// The package entry re-exports './tool' without an extension, which Node
+// cannot resolve; the subpath export is the same module
+vi.mock('@opencode-ai/plugin', () => import('@opencode-ai/plugin/tool'));
+
+vi.mock('../store', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../store')>()),
+  openStore: vi.fn(),
+}));
+
+const messages = [
+  { info: { id: 'msg-1', role: 'user', time: { created: 1000 } }, parts: [{ type: 'text', text: 'Hello' }] },
+  { info: { id: 'msg-2', role: 'assistant', time: { created: 2000 } }, parts: [{ type: 'text', text: 'Hi' }] },
+];
+
+describe('plugin', () => {
+  let directory: string;
+  let store: MemoryCheckpointStore;
+  let hooks: Awaited<ReturnType<typeof plugin>>;
+
+  const client = {
+    session: {
+      fork: vi.fn(),
+      messages: vi.fn(),
+    },
+  };
+
+  const context = (sessionID = 'session-1') =>
+    ({ sessionID, messageID: 'msg-2', agent: 'build', directory } as ToolContext);
+
+  const run = (name: string, args: Record<string, unknown>, sessionID?: string): Promise<string> =>
+    hooks.tool![name].execute(args as never, context(sessionID));
+
+  const events = () =>
+    store.listEvents().sort((a, b) => a.id - b.id).map((event) => ({
+      action: event.action,
+      checkpointId: event.checkpointId,
+      checkpointName: event.checkpointName,
+      sessionId: event.sessionId,
+      agent: event.agent,
+      success: event.success,
+      error: event.error,
+      forkSessionId: event.forkSessionId,
+      details: JSON.parse(event.details),
+    }));
+
+  beforeEach(async () => {
+    directory = mkdtempSync(join(tmpdir(), 'test-plugin-'));
+    store = new MemoryCheckpointStore();
+    vi.mocked(openStore).mockResolvedValue(store);
+    client.session.messages.mockResolvedValue({ data: messages });
+    client.session.fork.mockResolvedValue({ data: { id: 'session-fork', title: 'Fork' } });
+    hooks = await plugin({ client, directory } as unknown as PluginInput);
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should log created checkpoints', async () => {
+    await run('checkpoint_create', { name: 'Before refactor' });
+
+    expect(events()).toEqual([
+      expect.objectContaining({
+        action: 'create',
+        checkpointId: 1,
+        checkpointName: 'Before refactor',
+        sessionId: 'session-1',
+        agent: 'build',
+        success: true,
+        details: {},
+      }),
+    ]);
+  });
+
+  it('should log restores with their fork', async () => {
+    await run('checkpoint_create', { name: 'Start' });
+
+    const response = await run('checkpoint_restore', { checkpoint: '1' });
+
+    expect(response).toContain('New session ID: session-fork');
+    expect(events().slice(1)).toEqual([
+      expect.objectContaining({
+        action: 'create',
+        checkpointId: 2,
+        details: { autoTrigger: 'restore' },
+      }),
+      expect.objectContaining({
+        action: 'restore',
+        checkpointId: 1,
+        checkpointName: 'Start',
+        agent: 'build',
+        success: true,
+        forkSessionId: 'session-fork',
+        details: { mode: 'conversation' },
+      }),
+    ]);
+  });
+
+  it('should log failed restores with their error', async () => {
+    await run('checkpoint_restore', { checkpoint: '42' });
+
+    expect(events()).toEqual([
+      expect.objectContaining({
+        action: 'restore',
+        checkpointId: null,
+        checkpointName: '42',
+        success: false,
+        error: 'Checkpoint 42 not found',
+        forkSessionId: null,
+      }),
+    ]);
+  });
+
+  it('should log updates with what changed', async () => {
+    await run('checkpoint_create', { name: 'Start' });
+
+    await run('checkpoint_update', { checkpoint: '1', name: 'Baseline', addTags: ['stable'] });
+
+    expect(events()[1]).toMatchObject({
+      action: 'update',
+      checkpointId: 1,
+      checkpointName: 'Baseline',
+      details: { renamedFrom: 'Start', addTags: ['stable'] },
+    });
+  });
+
+  it('should log deletes and refuse to delete pinned checkpoints', async () => {
+    await run('checkpoint_create', { name: 'Keep', pinned: true });
+    await run('checkpoint_create', { name: 'Drop' });
+
+    const refused = await run('checkpoint_delete', { id: '1' });
+    await run('checkpoint_delete', { id: '2' });
+
+    expect(refused).toContain('is pinned and cannot be deleted');
+    expect(store.getCheckpoint(1)).not.toBeNull();
+    expect(store.getCheckpoint(2)).toBeNull();
+    expect(events().slice(2)).toEqual([
+      expect.objectContaining({
+        action: 'delete',
+        checkpointId: 1,
+        checkpointName: 'Keep',
+        success: false,
+        error: 'pinned',
+      }),
+      expect.objectContaining({
+        action: 'delete',
+        checkpointId: 2,
+        checkpointName: 'Drop',
+        success: true,
+      }),
+    ]);
+  });
+
+  it('should log each checkpoint trashed with a deleted session', async () => {
+    await run('checkpoint_create', { name: 'Pinned', pinned: true });
+    await run('checkpoint_create', { name: 'First' });
+    await run('checkpoint_create', { name: 'Second' });
+
+    await hooks.event!({
+      event: { type: 'session.deleted', properties: { info: { id: 'session-1' } } } as never,
+    });
+
+    expect(events().slice(3)).toEqual([
+      expect.objectContaining({ action: 'cleanup', checkpointId: 3, checkpointName: 'Second', agent: null }),
+      expect.objectContaining({ action: 'cleanup', checkpointId: 2, checkpointName: 'First', agent: null }),
+    ]);
+    expect(events().slice(3).map((event) => event.details)).toEqual([
+      { reason: 'session deleted' },
+      { reason: 'session deleted' },
+    ]);
+    expect(store.getCheckpoint(1)).not.toBeNull();
+  });
+
+  it('should report checkpoint code that is no longer in git', async () => {
+    for (const [name, gitCommit] of [['Before', 'a'.repeat(40)], ['After', 'b'.repeat(40)]]) {
+      store.createCheckpoint({ sessionId: 'session-1', name, messageCount: 2, gitCommit, directory });
+    }
+
+    const response = await run('checkpoint_diff', { from: '1', to: '2' });
+
+    expect(response).toContain('Code: unavailable (git object aaaaaaaa is no longer available)');
+  });
+
+  it('should refuse to export over an existing file unless asked to', async () => {
+    await run('checkpoint_create', { name: 'Start' });
+    const path = join(directory, 'package.json');
+    writeFileSync(path, '{"name":"app"}');
+
+    const refused = await run('checkpoint_export', { path: 'package.json' });
+
+    expect(refused).toBe(`Error: ${path} already exists. Choose another path, or pass overwrite: true to replace it.`);
+    expect(readFileSync(path, 'utf8')).toBe('{"name":"app"}');
+
+    await run('checkpoint_export', { path: 'package.json', overwrite: true });
+
+    expect(JSON.parse(readFileSync(path, 'utf8')).checkpoints).toHaveLength(1);
+  });
+
+  describe('other projects in the store', () => {
+    const other = '/elsewhere/project';
+
+    const checkpointIn = (project: string, sessionId: string, name: string, minutesAgo = 0): number =>
+      store.createCheckpoint({
+        sessionId,
+        name,
+        messageCount: 2,
+        directory: project,
+        createdAt: Date.now() - minutesAgo * 60_000,
+      });
+
+    it('should prune only this project', async () => {
+      for (const project of [directory, other]) {
+        for (let i = 0; i < 25; i++) {
+          checkpointIn(project, project === directory ? 'session-1' : 'session-other', `#${i}`, 60 * 24 * 40 + i);
+        }
+      }
+
+      await run('checkpoint_prune', { allSessions: true });
+
+      expect(store.listTrash().every((cp) => cp.directory === directory)).toBe(true);
+      expect(store.listAllCheckpoints('session-other')).toHaveLength(25);
+    });
+
+    it('should leave other projects out of the session tree', async () => {
+      checkpointIn(directory, 'session-1', 'Here');
+      const elsewhere = checkpointIn(other, 'session-other', 'There');
+      store.recordLineage({
+        sessionId: 'session-other-fork',
+        parentSessionId: 'session-other',
+        checkpointId: elsewhere,
+        checkpointName: 'There',
+      });
+
+      const tree = await run('checkpoint_tree', { all: true });
+
+      expect(tree).toContain('Here');
+      expect(tree).not.toContain('session-other');
+    });
+
+    it('should refuse to diff checkpoints of another project', async () => {
+      checkpointIn(directory, 'session-1', 'Here');
+      const elsewhere = checkpointIn(other, 'session-other', 'There');
+
+      const response = await run('checkpoint_diff', { from: '1', to: String(elsewhere) });
+
+      expect(response).toBe(`Checkpoint ${elsewhere} belongs to a different project (${other})`);
+      expect(client.session.messages).not.toHaveBeenCalledWith({ path: { id: 'session-other' } });
+    });
+  });
+
+  describe('snapshot refs', () => {
+    const DAY = 24 * 60 * 60 * 1000;
+
+    const git = (...args: string[]): string =>
+      execFileSync('git', args, { cwd: directory, encoding: 'utf8' }).trim();
+
+    const snapshot = (content: string): string => {
+      writeFileSync(join(directory, 'file.txt'), content);
+      const sha = new GitRepository(directory).snapshot()!;
+      git('checkout', '-q', '--', 'file.txt');
+      return sha;
+    };
+
+    const snapshotRefs = (): string[] =>
+      git('for-each-ref', '--format=%(refname)', 'refs/checkpoints/').split('\n').filter(Boolean);
+
+    beforeEach(async () => {
+      git('init', '-q');
+      git('config', 'user.name', 'Test');
+      git('config', 'user.email', 'test@example.com');
+      writeFileSync(join(directory, 'file.txt'), 'base\n');
+      git('add', '-A');
+      git('commit', '-q', '-m', 'base');
+      mkdirSync(join(directory, '.opencode'));
+      writeFileSync(
+        join(directory, '.opencode', 'checkpoint.json'),
+        JSON.stringify({ retention: { keepLast: 1, maxAge: '1m', thinning: [] } })
+      );
+      hooks = await plugin({ client, directory } as unknown as PluginInput);
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should drop the refs of pruned snapshots once they are purged', async () => {
+      const [only, shared] = [snapshot('one\n'), snapshot('two\n')];
+      const now = Date.now();
+      for (const [age, gitSnapshot] of [[3, only], [2, shared], [1, shared]] as const) {
+        store.createCheckpoint({
+          sessionId: 'session-1',
+          name: `${age} minutes ago`,
+          messageCount: 2,
+          gitSnapshot,
+          directory,
+          createdAt: now - age * 60_000,
+        });
+      }
+
+      await run('checkpoint_prune', {});
+      expect(snapshotRefs()).toHaveLength(2);
+
+      vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 8 * DAY);
+      await run('checkpoint_trash', {});
+
+      expect(store.listTrash()).toEqual([]);
+      expect(snapshotRefs()).toEqual([`refs/checkpoints/${shared}`]);
+    });
+
+    it('should keep snapshot refs while a trashed or pinned checkpoint records them', async () => {
+      const [only, shared] = [snapshot('one\n'), snapshot('two\n')];
+      store.createCheckpoint({ sessionId: 'session-1', name: 'Only', messageCount: 2, gitSnapshot: only, directory });
+      store.createCheckpoint({ sessionId: 'session-1', name: 'Shared', messageCount: 2, gitSnapshot: shared, directory });
+      store.createCheckpoint({
+        sessionId: 'session-1',
+        name: 'Pinned',
+        messageCount: 2,
+        gitSnapshot: shared,
+        pinned: true,
+        directory,
+      });
+
+      await hooks.event!({
+        event: { type: 'session.deleted', properties: { info: { id: 'session-1' } } } as never,
+      });
+      expect(snapshotRefs()).toHaveLength(2);
+
+      // The plugin purges the trash when it starts
+      vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 8 * DAY);
+      hooks = await plugin({ client, directory } as unknown as PluginInput);
+
+      expect(store.listTrash()).toEqual([]);
+      expect(snapshotRefs()).toEqual([`refs/checkpoints/${shared}`]);
+    });
+
+    it('should leave the trash of other projects to their own plugin', async () => {
+      const elsewhere = store.createCheckpoint({
+        sessionId: 'session-other',
+        name: 'There',
+        messageCount: 2,
+        gitSnapshot: snapshot('one\n'),
+        directory: '/elsewhere/project',
+      });
+      store.deleteCheckpoint(elsewhere);
+
+      vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 8 * DAY);
+      hooks = await plugin({ client, directory } as unknown as PluginInput);
+
+      expect(store.listTrash().map((cp) => cp.id)).toEqual([elsewhere]);
+    });
+  });
+});
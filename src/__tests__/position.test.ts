@@ -0,0 +1,67 @@
+/**
+ * position.test.ts - Tests for message positions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { describeMessageTarget, parseMessageTarget, resolveMessageTarget } from '../position';
+
+const MINUTE = 60 * 1000;
+const now = Date.UTC(2024, 4, 10, 12, 0, 0);
+
+// Ten messages, one a minute, the last at `now`
+const messages = Array.from({ length: 10 }, (_, i) => ({
+  id: `msg-${i + 1}`,
+  content: 'test',
+  createdAt: now - (9 - i) * MINUTE,
+}));
+
+describe('parseMessageTarget', () => {
+  it('should parse positions and offsets', () => {
+    expect(parseMessageTarget('37')).toEqual({ index: 37 });
+    expect(parseMessageTarget(' -3 ')).toEqual({ offset: 3 });
+  });
+
+  it('should parse dates and durations as times', () => {
+    expect(parseMessageTarget('2024-05-01T14:00:00Z', now)).toEqual({ time: Date.UTC(2024, 4, 1, 14) });
+    expect(parseMessageTarget('15m', now)).toEqual({ time: now - 15 * MINUTE });
+  });
+
+  it('should take anything else as a message ID', () => {
+    expect(parseMessageTarget('msg_01HZX 2')).toEqual({ messageId: 'msg_01HZX 2' });
+  });
+
+  it('should reject empty and zero positions', () => {
+    expect(() => parseMessageTarget(' ')).toThrow('Message position required');
+    expect(() => parseMessageTarget('0')).toThrow('start at 1');
+  });
+});
+
+describe('resolveMessageTarget', () => {
+  it('should resolve each kind of position', () => {
+    expect(resolveMessageTarget({ index: 4 }, messages)).toEqual({ messageId: 'msg-4', messageCount: 4 });
+    expect(resolveMessageTarget({ offset: 3 }, messages)).toEqual({ messageId: 'msg-7', messageCount: 7 });
+    expect(resolveMessageTarget({ offset: 0 }, messages)).toEqual({ messageId: 'msg-10', messageCount: 10 });
+    expect(resolveMessageTarget({ messageId: 'msg-2' }, messages)).toEqual({ messageId: 'msg-2', messageCount: 2 });
+  });
+
+  it('should pick the last message created at or before a time', () => {
+    expect(resolveMessageTarget({ time: now - 2.5 * MINUTE }, messages)).toMatchObject({ messageId: 'msg-7' });
+    expect(resolveMessageTarget({ time: now - 3 * MINUTE }, messages)).toMatchObject({ messageId: 'msg-7' });
+  });
+
+  it('should explain positions outside the session', () => {
+    expect(resolveMessageTarget({ index: 11 }, messages)).toMatchObject({ error: expect.stringContaining('has 10 messages') });
+    expect(resolveMessageTarget({ offset: 10 }, messages)).toMatchObject({ error: expect.stringContaining('cannot go back 10') });
+    expect(resolveMessageTarget({ messageId: 'msg-x' }, messages)).toMatchObject({ error: 'Message msg-x is not in the session' });
+    expect(resolveMessageTarget({ time: now - 60 * MINUTE }, messages)).toMatchObject({ error: expect.stringContaining('No message') });
+  });
+});
+
+describe('describeMessageTarget', () => {
+  it('should describe positions for titles', () => {
+    expect(describeMessageTarget({ index: 37 })).toBe('message 37');
+    expect(describeMessageTarget({ offset: 1 })).toBe('1 message ago');
+    expect(describeMessageTarget({ offset: 3 })).toBe('3 messages ago');
+    expect(describeMessageTarget({ messageId: 'msg-2' })).toBe('message msg-2');
+  });
+});
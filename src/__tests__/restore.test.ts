@@ -3,11 +3,15 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { RestoreManager, type OpenCodeSessionClient } from '../restore';
+import { PRE_RESTORE_TRIGGER, RestoreManager, type OpenCodeSessionClient } from '../restore';
 import { CheckpointDatabase } from '../database';
-import { unlinkSync, existsSync } from 'fs';
+import { GitRepository } from '../git';
+import { openStore } from '../store';
+import { fingerprintMessages } from '../fingerprint';
+import { execFileSync } from 'child_process';
+import { unlinkSync, existsSync, mkdtempSync, rmSync, writeFileSync, readFileSync } from 'fs';
 import { tmpdir } from 'os';
-import { join } from 'path';
+import { basename, dirname, join } from 'path';
 
 describe('RestoreManager', () => {
   let db: CheckpointDatabase;
@@ -140,6 +144,44 @@ describe('RestoreManager', () => {
       expect(result.error).toContain('Fork failed');
     });
 
+    it('should record the fork in the session lineage', async () => {
+      const sessionId = 'session-lineage';
+      const checkpointId = db.createCheckpoint({
+        sessionId,
+        name: 'Fork me',
+        messageCount: 2
+      });
+
+      vi.mocked(mockSessionClient.messages).mockResolvedValue([
+        { id: 'msg-0', content: 'a' },
+        { id: 'msg-1', content: 'b' }
+      ]);
+      vi.mocked(mockSessionClient.fork).mockResolvedValue({
+        id: 'forked-lineage',
+        title: 'Restored: Fork me'
+      });
+
+      await restoreManager.restore(sessionId, checkpointId);
+
+      expect(db.getLineage('forked-lineage')).toMatchObject({
+        parentSessionId: sessionId,
+        checkpointId,
+        checkpointName: 'Fork me'
+      });
+    });
+
+    it('should not record lineage when the fork fails', async () => {
+      const sessionId = 'session-lineage-error';
+      const checkpointId = db.createCheckpoint({ sessionId, name: 'Test', messageCount: 1 });
+
+      vi.mocked(mockSessionClient.messages).mockResolvedValue([{ id: 'msg-0', content: 'a' }]);
+      vi.mocked(mockSessionClient.fork).mockRejectedValue(new Error('Fork failed'));
+
+      await restoreManager.restore(sessionId, checkpointId);
+
+      expect(db.listLineage()).toEqual([]);
+    });
+
     it('should restore to exact message boundary', async () => {
       const sessionId = 'session-boundary';
       
@@ -323,6 +365,368 @@ describe('RestoreManager', () => {
     });
   });
 
+  describe('conversation integrity', () => {
+    const sessionId = 'session-integrity';
+    const original = () => Array.from({ length: 8 }, (_, i) => ({
+      id: `msg-${i}`,
+      content: [{ type: 'text', text: `Message ${i}` }]
+    }));
+
+    beforeEach(() => {
+      vi.mocked(mockSessionClient.fork).mockResolvedValue({ id: 'forked', title: 'Restored' });
+    });
+
+    const checkpointAt = (count: number): number => db.createCheckpoint({
+      sessionId,
+      name: 'Fingerprinted',
+      messageCount: count,
+      anchorMessageId: `msg-${count - 1}`,
+      fingerprint: fingerprintMessages(original(), count)
+    });
+
+    it('should fork when the prefix is intact', async () => {
+      const checkpointId = checkpointAt(5);
+      vi.mocked(mockSessionClient.messages).mockResolvedValue(original());
+
+      const result = await restoreManager.restore(sessionId, checkpointId);
+
+      expect(result.success).toBe(true);
+      expect(result.integrity).toEqual({ status: 'intact' });
+    });
+
+    it('should refuse a diverged prefix unless forced', async () => {
+      const checkpointId = checkpointAt(5);
+      const edited = original();
+      edited[2].content[0].text = 'Edited';
+      vi.mocked(mockSessionClient.messages).mockResolvedValue(edited);
+
+      const refused = await restoreManager.restore(sessionId, checkpointId);
+      const forced = await restoreManager.restore(sessionId, checkpointId, { force: true });
+
+      expect(refused.success).toBe(false);
+      expect(refused.error).toContain('diverged at message 3');
+      expect(forced.success).toBe(true);
+      expect(forced.integrity).toEqual({ status: 'diverged', position: 3 });
+      expect(mockSessionClient.fork).toHaveBeenCalledTimes(1);
+      expect(mockSessionClient.fork).toHaveBeenCalledWith(
+        expect.objectContaining({ messageId: 'msg-4' })
+      );
+    });
+
+    it('should fork after the last intact message when forced past a lost anchor', async () => {
+      const checkpointId = checkpointAt(6);
+      vi.mocked(mockSessionClient.messages).mockResolvedValue(original().slice(0, 3));
+
+      const refused = await restoreManager.restore(sessionId, checkpointId);
+      const forced = await restoreManager.restore(sessionId, checkpointId, { force: true });
+
+      expect(refused.error).toContain('truncated: 3 of the 6 messages');
+      expect(forced.success).toBe(true);
+      expect(forced.messageCount).toBe(3);
+      expect(mockSessionClient.fork).toHaveBeenCalledWith(
+        expect.objectContaining({ messageId: 'msg-2' })
+      );
+    });
+
+    it('should report integrity in the preview', async () => {
+      const checkpointId = checkpointAt(5);
+      vi.mocked(mockSessionClient.messages).mockResolvedValue(original().slice(0, 4));
+
+      const preview = await restoreManager.preview(sessionId, checkpointId, { force: true });
+
+      expect(preview.valid).toBe(true);
+      expect(preview.integrity).toEqual({ status: 'truncated', available: 4, expected: 5 });
+      expect(preview.anchorPosition).toBe(4);
+    });
+  });
+
+  describe('preview', () => {
+    it('should report the anchor and dropped messages without forking', async () => {
+      const sessionId = 'session-preview';
+      const checkpointId = db.createCheckpoint({
+        sessionId,
+        name: 'Halfway',
+        messageCount: 4,
+        anchorMessageId: 'msg-3'
+      });
+
+      vi.mocked(mockSessionClient.messages).mockResolvedValue(
+        Array.from({ length: 10 }, (_, i) => ({
+          id: `msg-${i}`,
+          role: 'user',
+          content: [{ type: 'text', text: `Message ${i}` }]
+        }))
+      );
+
+      const preview = await restoreManager.preview(sessionId, checkpointId);
+
+      expect(preview).toMatchObject({
+        valid: true,
+        checkpointName: 'Halfway',
+        mode: 'conversation',
+        totalMessages: 10,
+        anchorPosition: 4,
+        messagesDropped: 6
+      });
+      expect(preview.anchorMessage?.id).toBe('msg-3');
+      expect(preview.git).toBeUndefined();
+      expect(mockSessionClient.fork).not.toHaveBeenCalled();
+    });
+
+    it('should explain why a restore would fail', async () => {
+      const sessionId = 'session-preview-gone';
+      const checkpointId = db.createCheckpoint({
+        sessionId,
+        name: 'Reverted',
+        messageCount: 4,
+        anchorMessageId: 'msg-gone'
+      });
+
+      vi.mocked(mockSessionClient.messages).mockResolvedValue(
+        Array.from({ length: 10 }, (_, i) => ({ id: `msg-${i}`, content: 'test' }))
+      );
+
+      const preview = await restoreManager.preview(sessionId, checkpointId);
+
+      expect(preview.valid).toBe(false);
+      expect(preview.reason).toContain('msg-gone');
+      expect(preview.anchorMessage).toBeUndefined();
+    });
+
+    it('should report a missing checkpoint', async () => {
+      const preview = await restoreManager.preview('session-123', 999);
+
+      expect(preview.valid).toBe(false);
+      expect(preview.reason).toContain('not found');
+    });
+  });
+
+  describe('message anchors', () => {
+    it('should fork at the anchor message even when positions shift', async () => {
+      const sessionId = 'session-anchor';
+      const checkpointId = db.createCheckpoint({
+        sessionId,
+        name: 'Anchored',
+        messageCount: 10,
+        anchorMessageId: 'msg-9'
+      });
+
+      // Compaction removed the first four messages
+      vi.mocked(mockSessionClient.messages).mockResolvedValue(
+        Array.from({ length: 16 }, (_, i) => ({ id: `msg-${i + 4}`, content: 'test' }))
+      );
+      vi.mocked(mockSessionClient.fork).mockResolvedValue({
+        id: 'forked',
+        title: 'Restored'
+      });
+
+      const result = await restoreManager.restore(sessionId, checkpointId);
+
+      expect(result.success).toBe(true);
+      expect(result.messageCount).toBe(6);
+      expect(mockSessionClient.fork).toHaveBeenCalledWith(
+        expect.objectContaining({ messageId: 'msg-9' })
+      );
+    });
+
+    it('should fail clearly when the anchor message is gone', async () => {
+      const sessionId = 'session-anchor-gone';
+      const checkpointId = db.createCheckpoint({
+        sessionId,
+        name: 'Anchored',
+        messageCount: 5,
+        anchorMessageId: 'msg-reverted'
+      });
+
+      vi.mocked(mockSessionClient.messages).mockResolvedValue(
+        Array.from({ length: 20 }, (_, i) => ({ id: `msg-${i}`, content: 'test' }))
+      );
+
+      const result = await restoreManager.restore(sessionId, checkpointId);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('msg-reverted');
+      expect(result.error).toContain('no longer exists');
+      expect(mockSessionClient.fork).not.toHaveBeenCalled();
+
+      const validation = await restoreManager.canRestore(sessionId, checkpointId);
+      expect(validation.valid).toBe(false);
+      expect(validation.reason).toContain('no longer exists');
+    });
+
+    it('should not require the original message count when anchored', async () => {
+      const sessionId = 'session-anchor-short';
+      const checkpointId = db.createCheckpoint({
+        sessionId,
+        name: 'Anchored',
+        messageCount: 50,
+        anchorMessageId: 'msg-2'
+      });
+
+      vi.mocked(mockSessionClient.messages).mockResolvedValue(
+        Array.from({ length: 5 }, (_, i) => ({ id: `msg-${i}`, content: 'test' }))
+      );
+
+      const validation = await restoreManager.canRestore(sessionId, checkpointId);
+      expect(validation.valid).toBe(true);
+    });
+  });
+
+  describe('restoreAt', () => {
+    const sessionId = 'session-at';
+
+    beforeEach(() => {
+      vi.mocked(mockSessionClient.messages).mockResolvedValue(
+        Array.from({ length: 40 }, (_, i) => ({
+          id: `msg-${i + 1}`,
+          content: [{ type: 'text', text: `step ${i + 1}` }],
+          createdAt: 1700000000000 + i * 1000
+        }))
+      );
+      vi.mocked(mockSessionClient.fork).mockResolvedValue({ id: 'forked-at', title: 'Restored' });
+    });
+
+    it('should fork at a message without a checkpoint', async () => {
+      const result = await restoreManager.restoreAt(sessionId, { index: 37 });
+
+      expect(result).toMatchObject({
+        success: true,
+        checkpointId: 0,
+        checkpointName: 'message 37',
+        newSessionId: 'forked-at',
+        messageCount: 37
+      });
+      expect(mockSessionClient.fork).toHaveBeenCalledWith({
+        sessionId,
+        messageId: 'msg-37',
+        title: 'Restored: message 37'
+      });
+      expect(db.getLineage('forked-at')).toMatchObject({
+        parentSessionId: sessionId,
+        checkpointId: null,
+        checkpointName: 'message 37'
+      });
+      expect(db.listAllCheckpoints().map((cp) => cp.id)).toEqual([result.preRestoreCheckpointId]);
+    });
+
+    it('should create a checkpoint at the position and restore it', async () => {
+      const result = await restoreManager.restoreAt(sessionId, { offset: 3 }, {
+        checkpoint: 'Good state',
+        description: 'found afterwards'
+      });
+
+      expect(result).toMatchObject({ success: true, retroactive: true, messageCount: 37 });
+      const checkpoint = db.getCheckpoint(result.checkpointId)!;
+      expect(checkpoint).toMatchObject({
+        name: 'Good state',
+        description: 'found afterwards',
+        messageCount: 37,
+        anchorMessageId: 'msg-37',
+        createdAt: 1700000036000,
+        gitCommit: null
+      });
+      expect(checkpoint.excerpt).toContain('step 37');
+      expect(checkpoint.excerpt).not.toContain('step 38');
+      expect(db.getLineage('forked-at')?.checkpointId).toBe(checkpoint.id);
+    });
+
+    it('should fail without forking when the position is not in the session', async () => {
+      const result = await restoreManager.restoreAt(sessionId, { messageId: 'msg-gone' }, {
+        checkpoint: 'Never'
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('msg-gone');
+      expect(mockSessionClient.fork).not.toHaveBeenCalled();
+      expect(db.listAllCheckpoints()).toEqual([]);
+    });
+  });
+
+  describe('pre-restore checkpoint', () => {
+    beforeEach(() => {
+      vi.mocked(mockSessionClient.messages).mockResolvedValue(
+        Array.from({ length: 12 }, (_, i) => ({ id: `msg-${i}`, content: 'test' }))
+      );
+      vi.mocked(mockSessionClient.fork).mockResolvedValue({ id: 'forked', title: 'Restored' });
+    });
+
+    it('should checkpoint the head of the session before forking', async () => {
+      const checkpointId = db.createCheckpoint({
+        sessionId: 'session-undo',
+        name: 'Earlier',
+        messageCount: 5,
+        anchorMessageId: 'msg-4'
+      });
+
+      const result = await restoreManager.restore('session-undo', checkpointId);
+
+      expect(result.success).toBe(true);
+      const pre = db.getCheckpoint(result.preRestoreCheckpointId!);
+      expect(pre).toMatchObject({
+        sessionId: 'session-undo',
+        name: 'Before restore: Earlier',
+        messageCount: 12,
+        anchorMessageId: 'msg-11',
+        autoTrigger: PRE_RESTORE_TRIGGER,
+        gitCommit: null,
+        gitSnapshot: null
+      });
+      expect(pre?.fingerprint).toBeTruthy();
+    });
+
+    it('should undo a restore by restoring the pre-restore checkpoint', async () => {
+      const checkpointId = db.createCheckpoint({
+        sessionId: 'session-undo',
+        name: 'Earlier',
+        messageCount: 5,
+        anchorMessageId: 'msg-4'
+      });
+      const { preRestoreCheckpointId } = await restoreManager.restore('session-undo', checkpointId);
+
+      const undone = await restoreManager.restore('session-undo', preRestoreCheckpointId!);
+
+      expect(undone.success).toBe(true);
+      expect(undone.messageCount).toBe(12);
+      expect(mockSessionClient.fork).toHaveBeenLastCalledWith(
+        expect.objectContaining({ messageId: 'msg-11' })
+      );
+    });
+
+    it('should record the caller\'s session when forking another one', async () => {
+      const projectManager = new RestoreManager(db, mockSessionClient, undefined, '/project');
+      const checkpointId = db.createCheckpoint({
+        sessionId: 'session-yesterday',
+        name: 'Yesterday',
+        messageCount: 2,
+        anchorMessageId: 'msg-1',
+        directory: '/project'
+      });
+
+      const result = await projectManager.restore('session-today', checkpointId);
+
+      expect(db.getCheckpoint(result.preRestoreCheckpointId!)).toMatchObject({
+        sessionId: 'session-today',
+        directory: '/project'
+      });
+      expect(mockSessionClient.messages).toHaveBeenCalledWith('session-today');
+    });
+
+    it('should not checkpoint when the restore is refused', async () => {
+      const checkpointId = db.createCheckpoint({
+        sessionId: 'session-undo',
+        name: 'Gone',
+        messageCount: 5,
+        anchorMessageId: 'msg-reverted'
+      });
+
+      const result = await restoreManager.restore('session-undo', checkpointId);
+
+      expect(result.success).toBe(false);
+      expect(result.preRestoreCheckpointId).toBeUndefined();
+      expect(db.listAllCheckpoints()).toHaveLength(1);
+    });
+  });
+
   describe('edge cases', () => {
     it('should handle checkpoint at first message', async () => {
       const sessionId = 'session-first';
@@ -486,4 +890,494 @@ describe('RestoreManager', () => {
       expect(result.success).toBe(true);
     });
   });
+
+  describe('cross-session restore', () => {
+    let projectManager: RestoreManager;
+
+    beforeEach(() => {
+      projectManager = new RestoreManager(db, mockSessionClient, undefined, '/project');
+      vi.mocked(mockSessionClient.messages).mockResolvedValue([
+        { id: 'msg-0', content: 'a' },
+        { id: 'msg-1', content: 'b' },
+        { id: 'msg-2', content: 'c' }
+      ]);
+      vi.mocked(mockSessionClient.fork).mockResolvedValue({
+        id: 'forked-origin',
+        title: 'Restored: Yesterday'
+      });
+    });
+
+    it('should fork the origin session of a checkpoint from the same project', async () => {
+      const checkpointId = db.createCheckpoint({
+        sessionId: 'session-yesterday',
+        name: 'Yesterday',
+        messageCount: 2,
+        anchorMessageId: 'msg-1',
+        directory: '/project'
+      });
+
+      const result = await projectManager.restore('session-today', checkpointId);
+
+      expect(result.success).toBe(true);
+      expect(result.originSessionId).toBe('session-yesterday');
+      expect(mockSessionClient.messages).toHaveBeenCalledWith('session-yesterday');
+      expect(mockSessionClient.fork).toHaveBeenCalledWith(
+        expect.objectContaining({ sessionId: 'session-yesterday', messageId: 'msg-1' })
+      );
+      expect(db.getLineage('forked-origin')?.parentSessionId).toBe('session-yesterday');
+    });
+
+    it('should not report an origin for checkpoints of the current session', async () => {
+      const checkpointId = db.createCheckpoint({
+        sessionId: 'session-today',
+        name: 'Today',
+        messageCount: 1,
+        directory: '/project'
+      });
+
+      const result = await projectManager.restore('session-today', checkpointId);
+
+      expect(result.success).toBe(true);
+      expect(result.originSessionId).toBeUndefined();
+    });
+
+    it('should refuse checkpoints from another project', async () => {
+      const checkpointId = db.createCheckpoint({
+        sessionId: 'session-elsewhere',
+        name: 'Elsewhere',
+        messageCount: 1,
+        directory: '/other-project'
+      });
+
+      const result = await projectManager.restore('session-today', checkpointId);
+      const check = await projectManager.canRestore('session-today', checkpointId);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('different project (/other-project)');
+      expect(check.valid).toBe(false);
+      expect(mockSessionClient.fork).not.toHaveBeenCalled();
+    });
+
+    it('should keep checkpoints without a recorded project session-scoped', async () => {
+      const checkpointId = db.createCheckpoint({
+        sessionId: 'session-legacy',
+        name: 'Legacy',
+        messageCount: 1
+      });
+
+      const result = await projectManager.restore('session-today', checkpointId);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('different session');
+    });
+
+    it('should validate cross-session checkpoints against their origin session', async () => {
+      const checkpointId = db.createCheckpoint({
+        sessionId: 'session-yesterday',
+        name: 'Yesterday',
+        messageCount: 3,
+        directory: '/project'
+      });
+
+      const check = await projectManager.canRestore('session-today', checkpointId);
+
+      expect(check.valid).toBe(true);
+      expect(mockSessionClient.messages).toHaveBeenCalledWith('session-yesterday');
+    });
+
+    it('should find checkpoints by name in other sessions of the project', async () => {
+      db.createCheckpoint({
+        sessionId: 'session-yesterday',
+        name: 'Yesterday',
+        messageCount: 2,
+        anchorMessageId: 'msg-1',
+        directory: '/project'
+      });
+
+      const result = await projectManager.restoreByName('session-today', 'Yesterday');
+
+      expect(result.success).toBe(true);
+      expect(result.originSessionId).toBe('session-yesterday');
+    });
+  });
+
+  describe('file restore', () => {
+    let repoDir: string;
+    let git: GitRepository;
+    let fileRestoreManager: RestoreManager;
+
+    const run = (...args: string[]): string =>
+      execFileSync('git', args, { cwd: repoDir, encoding: 'utf8' }).trim();
+
+    beforeEach(() => {
+      repoDir = mkdtempSync(join(tmpdir(), 'test-restore-git-'));
+      run('init', '-q');
+      run('config', 'user.name', 'Test');
+      run('config', 'user.email', 'test@example.com');
+      writeFileSync(join(repoDir, 'app.ts'), 'v1\n');
+      run('add', '-A');
+      run('commit', '-q', '-m', 'initial');
+
+      git = new GitRepository(repoDir);
+      fileRestoreManager = new RestoreManager(db, mockSessionClient, git);
+
+      vi.mocked(mockSessionClient.messages).mockResolvedValue(
+        Array.from({ length: 10 }, (_, i) => ({ id: `msg-${i}`, content: 'test' }))
+      );
+      vi.mocked(mockSessionClient.fork).mockResolvedValue({
+        id: 'forked',
+        title: 'Restored'
+      });
+    });
+
+    afterEach(() => {
+      rmSync(repoDir, { recursive: true, force: true });
+    });
+
+    const checkpointWithSnapshot = (sessionId: string): number => {
+      writeFileSync(join(repoDir, 'app.ts'), 'v2 (uncommitted)\n');
+      const gitSnapshot = git.snapshot();
+      run('checkout', '-q', '--', 'app.ts');
+
+      return db.createCheckpoint({
+        sessionId,
+        name: 'Dirty State',
+        messageCount: 5,
+        gitCommit: git.head(),
+        gitSnapshot
+      });
+    };
+
+    it('should restore files only without forking', async () => {
+      const checkpointId = checkpointWithSnapshot('session-files');
+
+      const result = await fileRestoreManager.restore('session-files', checkpointId, {
+        mode: 'files'
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.newSessionId).toBe('');
+      expect(result.changedFiles).toEqual([{ status: 'modified', path: 'app.ts' }]);
+      expect(readFileSync(join(repoDir, 'app.ts'), 'utf8')).toBe('v2 (uncommitted)\n');
+      expect(mockSessionClient.fork).not.toHaveBeenCalled();
+    });
+
+    it('should restore files and conversation together', async () => {
+      const checkpointId = checkpointWithSnapshot('session-both');
+
+      const result = await fileRestoreManager.restore('session-both', checkpointId, {
+        mode: 'both'
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.newSessionId).toBe('forked');
+      expect(result.gitTarget).toBe(db.getCheckpoint(checkpointId)?.gitSnapshot);
+      expect(readFileSync(join(repoDir, 'app.ts'), 'utf8')).toBe('v2 (uncommitted)\n');
+    });
+
+    it('should fall back to the recorded commit without a snapshot', async () => {
+      const gitCommit = git.head();
+      writeFileSync(join(repoDir, 'app.ts'), 'v3\n');
+      run('commit', '-q', '-am', 'v3');
+
+      const checkpointId = db.createCheckpoint({
+        sessionId: 'session-commit',
+        name: 'Clean State',
+        messageCount: 5,
+        gitCommit
+      });
+
+      const result = await fileRestoreManager.restore('session-commit', checkpointId, {
+        mode: 'files'
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.gitTarget).toBe(gitCommit);
+      expect(readFileSync(join(repoDir, 'app.ts'), 'utf8')).toBe('v1\n');
+    });
+
+    it('should refuse to overwrite uncommitted changes by default', async () => {
+      const checkpointId = checkpointWithSnapshot('session-dirty');
+      writeFileSync(join(repoDir, 'app.ts'), 'work in progress\n');
+
+      const result = await fileRestoreManager.restore('session-dirty', checkpointId, {
+        mode: 'both'
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('uncommitted changes');
+      expect(readFileSync(join(repoDir, 'app.ts'), 'utf8')).toBe('work in progress\n');
+      expect(mockSessionClient.fork).not.toHaveBeenCalled();
+    });
+
+    it('should stash uncommitted changes first when requested', async () => {
+      const checkpointId = checkpointWithSnapshot('session-stash');
+      writeFileSync(join(repoDir, 'app.ts'), 'work in progress\n');
+
+      const result = await fileRestoreManager.restore('session-stash', checkpointId, {
+        mode: 'files',
+        onDirty: 'stash'
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.stash).toBe(run('rev-parse', 'stash@{0}'));
+      expect(run('show', 'stash@{0}:app.ts')).toBe('work in progress');
+      expect(readFileSync(join(repoDir, 'app.ts'), 'utf8')).toBe('v2 (uncommitted)\n');
+    });
+
+    it('should snapshot the working tree before stashing it, so the restore can be undone', async () => {
+      const checkpointId = checkpointWithSnapshot('session-undo-files');
+      writeFileSync(join(repoDir, 'app.ts'), 'work in progress\n');
+
+      const result = await fileRestoreManager.restore('session-undo-files', checkpointId, {
+        mode: 'files',
+        onDirty: 'stash'
+      });
+      const pre = db.getCheckpoint(result.preRestoreCheckpointId!)!;
+
+      expect(pre.gitCommit).toBe(git.head());
+      expect(pre.gitStatus?.dirty).toBe(true);
+      expect(run('show', `${pre.gitSnapshot}:app.ts`)).toBe('work in progress');
+
+      const undone = await fileRestoreManager.restore('session-undo-files', pre.id, {
+        mode: 'files',
+        onDirty: 'stash'
+      });
+
+      expect(undone.success).toBe(true);
+      expect(readFileSync(join(repoDir, 'app.ts'), 'utf8')).toBe('work in progress\n');
+    });
+
+    it('should leave a project store in the repository alone', async () => {
+      const projectStore = await openStore(repoDir, { location: 'project' });
+      const projectRestoreManager = new RestoreManager(projectStore, mockSessionClient, git);
+      try {
+        run('add', '.opencode/.gitignore');
+        run('commit', '-q', '-m', 'ignore the checkpoint store');
+        writeFileSync(join(repoDir, 'app.ts'), 'v2 (uncommitted)\n');
+        const gitSnapshot = git.snapshot()!;
+        run('checkout', '-q', '--', 'app.ts');
+        const checkpointId = projectStore.createCheckpoint({
+          sessionId: 'session-project-store',
+          name: 'Dirty State',
+          messageCount: 5,
+          gitCommit: git.head(),
+          gitSnapshot
+        });
+
+        expect(git.isDirty()).toBe(false);
+        expect(run('ls-tree', '-r', '--name-only', gitSnapshot)).not.toContain('checkpoints.db');
+
+        writeFileSync(join(repoDir, 'app.ts'), 'work in progress\n');
+        const result = await projectRestoreManager.restore('session-project-store', checkpointId, {
+          mode: 'files',
+          onDirty: 'stash'
+        });
+
+        expect(result.success).toBe(true);
+        expect(run('show', '--name-only', '--format=', 'stash@{0}')).toBe('app.ts');
+        expect(readFileSync(join(repoDir, 'app.ts'), 'utf8')).toBe('v2 (uncommitted)\n');
+        expect(projectStore.getCheckpoint(result.preRestoreCheckpointId!)).not.toBeNull();
+        expect(projectStore.createCheckpoint({
+          sessionId: 'session-project-store',
+          name: 'After Restore',
+          messageCount: 5
+        })).toBeGreaterThan(checkpointId);
+      } finally {
+        projectStore.close();
+      }
+    });
+
+    it('should warn when the checkpoint had uncommitted changes but no snapshot', async () => {
+      const dirty = {
+        branch: 'main', ahead: null, behind: null, dirty: true, staged: 0, modified: 2, untracked: 0
+      };
+      const gitCommit = git.head()!;
+      const withoutSnapshot = db.createCheckpoint({
+        sessionId: 'session-uncaptured',
+        name: 'Uncaptured',
+        messageCount: 5,
+        gitCommit,
+        gitStatus: dirty
+      });
+      const withSnapshot = checkpointWithSnapshot('session-uncaptured');
+      db.updateCheckpoint(withSnapshot, { name: 'Captured' });
+
+      const warned = await fileRestoreManager.restore('session-uncaptured', withoutSnapshot, {
+        mode: 'files'
+      });
+      const preview = await fileRestoreManager.preview('session-uncaptured', withoutSnapshot);
+      const captured = await fileRestoreManager.restore('session-uncaptured', withSnapshot);
+
+      expect(warned.success).toBe(true);
+      expect(warned.warning).toContain('uncommitted changes (2 modified) but no snapshot');
+      expect(warned.warning).toContain(gitCommit.slice(0, 8));
+      expect(preview.warning).toBe(warned.warning);
+      expect(captured.warning).toBeUndefined();
+    });
+
+    it('should fail when the checkpoint has no git state', async () => {
+      const checkpointId = db.createCheckpoint({
+        sessionId: 'session-nogit',
+        name: 'No Git',
+        messageCount: 5
+      });
+
+      const result = await fileRestoreManager.restore('session-nogit', checkpointId, {
+        mode: 'files'
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('no recorded git commit');
+    });
+
+    it('should preview the files a restore would change without touching them', async () => {
+      const checkpointId = checkpointWithSnapshot('session-preview-files');
+      const gitSnapshot = db.getCheckpoint(checkpointId)?.gitSnapshot;
+
+      const preview = await fileRestoreManager.preview('session-preview-files', checkpointId, {
+        mode: 'both'
+      });
+
+      expect(preview.valid).toBe(true);
+      expect(preview.git).toEqual({
+        target: gitSnapshot,
+        isSnapshot: true,
+        head: git.head(),
+        dirty: false,
+        changedFiles: [{ status: 'modified', path: 'app.ts' }]
+      });
+      expect(readFileSync(join(repoDir, 'app.ts'), 'utf8')).toBe('v1\n');
+    });
+
+    it('should preview a refused file restore over uncommitted changes', async () => {
+      const checkpointId = checkpointWithSnapshot('session-preview-dirty');
+      writeFileSync(join(repoDir, 'app.ts'), 'work in progress\n');
+
+      const refused = await fileRestoreManager.preview('session-preview-dirty', checkpointId, {
+        mode: 'files'
+      });
+      const stashed = await fileRestoreManager.preview('session-preview-dirty', checkpointId, {
+        mode: 'files',
+        onDirty: 'stash'
+      });
+
+      expect(refused.valid).toBe(false);
+      expect(refused.reason).toContain('uncommitted changes');
+      expect(refused.git?.dirty).toBe(true);
+      expect(stashed.valid).toBe(true);
+      expect(run('stash', 'list')).toBe('');
+    });
+
+    describe('checkout', () => {
+      let worktreeDir: string;
+
+      beforeEach(() => {
+        worktreeDir = join(mkdtempSync(join(tmpdir(), 'test-restore-worktree-')), 'wt');
+      });
+
+      afterEach(() => {
+        rmSync(dirname(worktreeDir), { recursive: true, force: true });
+      });
+
+      it('should check out a new branch at the checkpoint commit', async () => {
+        const checkpointId = checkpointWithSnapshot('session-branch');
+        const gitCommit = git.head();
+        writeFileSync(join(repoDir, 'app.ts'), 'v3\n');
+        run('commit', '-q', '-am', 'v3');
+
+        const result = await fileRestoreManager.restore('session-branch', checkpointId, {
+          checkout: 'branch'
+        });
+
+        expect(result.success).toBe(true);
+        expect(result.gitBranch).toBe(`checkpoint/dirty-state-${checkpointId}`);
+        expect(run('rev-parse', '--abbrev-ref', 'HEAD')).toBe(result.gitBranch);
+        expect(git.head()).toBe(gitCommit);
+        // The snapshot's uncommitted changes come back on top of the branch
+        expect(readFileSync(join(repoDir, 'app.ts'), 'utf8')).toBe('v2 (uncommitted)\n');
+        expect(db.getLineage('forked')).toMatchObject({
+          gitBranch: result.gitBranch,
+          worktreePath: null
+        });
+      });
+
+      it('should add a worktree and leave the current tree alone', async () => {
+        const checkpointId = checkpointWithSnapshot('session-worktree');
+        writeFileSync(join(repoDir, 'app.ts'), 'work in progress\n');
+        const branch = run('rev-parse', '--abbrev-ref', 'HEAD');
+
+        const result = await fileRestoreManager.restore('session-worktree', checkpointId, {
+          mode: 'both',
+          checkout: 'worktree',
+          worktreePath: worktreeDir
+        });
+
+        expect(result.success).toBe(true);
+        expect(result.worktreePath).toBe(worktreeDir);
+        expect(readFileSync(join(worktreeDir, 'app.ts'), 'utf8')).toBe('v2 (uncommitted)\n');
+        expect(readFileSync(join(repoDir, 'app.ts'), 'utf8')).toBe('work in progress\n');
+        expect(run('rev-parse', '--abbrev-ref', 'HEAD')).toBe(branch);
+        expect(db.getLineage('forked')).toMatchObject({
+          gitBranch: `checkpoint/dirty-state-${checkpointId}`,
+          worktreePath: worktreeDir
+        });
+      });
+
+      it('should preview the default worktree next to the repository', async () => {
+        const checkpointId = checkpointWithSnapshot('session-preview-worktree');
+
+        const preview = await fileRestoreManager.preview('session-preview-worktree', checkpointId, {
+          checkout: 'worktree'
+        });
+
+        expect(preview.valid).toBe(true);
+        expect(preview.gitBranch).toBe(`checkpoint/dirty-state-${checkpointId}`);
+        expect(preview.worktreePath).toBe(
+          join(dirname(git.root()), `${basename(git.root())}-dirty-state-${checkpointId}`)
+        );
+        expect(existsSync(preview.worktreePath!)).toBe(false);
+      });
+
+      it('should refuse a checkout without a forked session to record it', async () => {
+        const checkpointId = checkpointWithSnapshot('session-files-checkout');
+        const branch = run('rev-parse', '--abbrev-ref', 'HEAD');
+        const options = { mode: 'files' as const, checkout: 'worktree' as const, worktreePath: worktreeDir };
+
+        const preview = await fileRestoreManager.preview('session-files-checkout', checkpointId, options);
+        const result = await fileRestoreManager.restore('session-files-checkout', checkpointId, options);
+
+        expect(preview).toMatchObject({ valid: false, reason: expect.stringContaining('use mode "both"') });
+        expect(result.success).toBe(false);
+        expect(result.error).toBe(preview.reason);
+        expect(existsSync(worktreeDir)).toBe(false);
+        expect(run('branch', '--list', 'checkpoint/*')).toBe('');
+        expect(run('rev-parse', '--abbrev-ref', 'HEAD')).toBe(branch);
+      });
+
+      it('should refuse when the branch already exists', async () => {
+        const checkpointId = checkpointWithSnapshot('session-taken');
+        run('branch', `checkpoint/dirty-state-${checkpointId}`);
+
+        const result = await fileRestoreManager.restore('session-taken', checkpointId, {
+          checkout: 'branch'
+        });
+
+        expect(result.success).toBe(false);
+        expect(result.error).toContain('already exists');
+        expect(mockSessionClient.fork).not.toHaveBeenCalled();
+      });
+    });
+
+    it('should fail when no repository is available', async () => {
+      const checkpointId = checkpointWithSnapshot('session-norepo');
+
+      const result = await restoreManager.restore('session-norepo', checkpointId, {
+        mode: 'files'
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('requires a git repository');
+    });
+  });
 });
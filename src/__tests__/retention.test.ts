@@ -0,0 +1,152 @@
+/**
+ * retention.test.ts - Tests for retention policies
+ */
+
+import { describe, it, expect } from 'vitest';
+import { planPrune, parseDuration, type RetentionPolicy } from '../retention';
+import type { Checkpoint } from '../database';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+// Aligned to a day boundary so thinning buckets are predictable
+const NOW = 20000 * DAY;
+
+let nextId = 1;
+
+function checkpoint(ageMs: number, overrides: Partial<Checkpoint> = {}): Checkpoint {
+  const id = nextId++;
+  return {
+    id,
+    sessionId: 'session-1',
+    name: `CP${id}`,
+    description: null,
+    messageCount: id,
+    anchorMessageId: null,
+    gitCommit: null,
+    gitSnapshot: null,
+    autoTrigger: null,
+    pinned: false,
+    createdAt: NOW - ageMs,
+    metadata: '{}',
+    ...overrides
+  };
+}
+
+const noLimits: RetentionPolicy = { keepLast: 0, thinning: [] };
+
+const prunedIds = (checkpoints: Checkpoint[], policy: RetentionPolicy): number[] =>
+  planPrune(checkpoints, policy, NOW).prune.map((p) => p.checkpoint.id).sort((a, b) => a - b);
+
+describe('parseDuration', () => {
+  it('should parse minutes, hours, days and weeks', () => {
+    expect(parseDuration('30m')).toBe(30 * MINUTE);
+    expect(parseDuration('12h')).toBe(12 * HOUR);
+    expect(parseDuration('7d')).toBe(7 * DAY);
+    expect(parseDuration('2w')).toBe(14 * DAY);
+  });
+
+  it('should reject malformed durations', () => {
+    expect(() => parseDuration('soon')).toThrow('Invalid duration');
+    expect(() => parseDuration('5y')).toThrow('Invalid duration');
+  });
+});
+
+describe('planPrune', () => {
+  it('should keep everything without limits', () => {
+    const checkpoints = [checkpoint(HOUR), checkpoint(40 * DAY)];
+    expect(prunedIds(checkpoints, noLimits)).toEqual([]);
+  });
+
+  it('should prune checkpoints older than maxAge', () => {
+    const recent = checkpoint(DAY);
+    const old = checkpoint(31 * DAY);
+
+    const plan = planPrune([recent, old], { ...noLimits, maxAge: '30d' }, NOW);
+
+    expect(plan.prune).toEqual([{ checkpoint: old, reason: 'older than 30d' }]);
+    expect(plan.keep).toEqual([recent]);
+  });
+
+  it('should always keep the newest keepLast checkpoints', () => {
+    const checkpoints = [checkpoint(40 * DAY), checkpoint(50 * DAY), checkpoint(60 * DAY)];
+
+    const pruned = prunedIds(checkpoints, { keepLast: 2, maxAge: '30d', thinning: [] });
+
+    expect(pruned).toEqual([checkpoints[2].id]);
+  });
+
+  it('should never prune pinned checkpoints', () => {
+    const pinned = checkpoint(90 * DAY, { pinned: true });
+    const unpinned = checkpoint(90 * DAY);
+
+    const pruned = prunedIds([pinned, unpinned], { ...noLimits, maxAge: '30d' });
+
+    expect(pruned).toEqual([unpinned.id]);
+  });
+
+  it('should thin to one checkpoint per interval, keeping the newest', () => {
+    // Three checkpoints within the same hour, one in the previous hour
+    const a = checkpoint(10 * MINUTE);
+    const b = checkpoint(20 * MINUTE);
+    const c = checkpoint(30 * MINUTE);
+    const d = checkpoint(90 * MINUTE);
+
+    const plan = planPrune([a, b, c, d], {
+      keepLast: 0,
+      thinning: [{ within: '1d', every: '1h' }]
+    }, NOW);
+
+    expect(plan.keep.map((cp) => cp.id)).toEqual([a.id, d.id]);
+    expect(plan.prune.map((p) => p.checkpoint.id)).toEqual([b.id, c.id]);
+    expect(plan.prune[0].reason).toBe('thinned to one per 1h within 1d');
+  });
+
+  it('should apply hourly then daily thinning by age', () => {
+    const policy: RetentionPolicy = {
+      keepLast: 0,
+      maxAge: '30d',
+      thinning: [
+        { within: '7d', every: '1d' },
+        { within: '1d', every: '1h' }
+      ]
+    };
+
+    // Hourly tier: two in separate hours are both kept
+    const hour1 = checkpoint(1 * HOUR + 5 * MINUTE);
+    const hour2 = checkpoint(2 * HOUR + 5 * MINUTE);
+    // Daily tier: two on the same day three days ago, one kept
+    const day3a = checkpoint(3 * DAY - 4 * HOUR);
+    const day3b = checkpoint(3 * DAY - 2 * HOUR);
+    // Beyond the thinning tiers but within maxAge: kept
+    const week2 = checkpoint(14 * DAY);
+    // Beyond maxAge: pruned
+    const month2 = checkpoint(60 * DAY);
+
+    const pruned = prunedIds([hour1, hour2, day3a, day3b, week2, month2], policy);
+
+    expect(pruned).toEqual([day3b.id, month2.id]);
+  });
+
+  it('should let kept checkpoints occupy their thinning interval', () => {
+    const newest = checkpoint(5 * MINUTE);
+    const sameHour = checkpoint(15 * MINUTE);
+
+    const pruned = prunedIds([newest, sameHour], {
+      keepLast: 1,
+      thinning: [{ within: '1d', every: '1h' }]
+    });
+
+    expect(pruned).toEqual([sameHour.id]);
+  });
+
+  it('should apply the policy to each session separately', () => {
+    const a1 = checkpoint(40 * DAY, { sessionId: 'session-a' });
+    const a2 = checkpoint(41 * DAY, { sessionId: 'session-a' });
+    const b1 = checkpoint(40 * DAY, { sessionId: 'session-b' });
+
+    const pruned = prunedIds([a1, a2, b1], { keepLast: 1, maxAge: '30d', thinning: [] });
+
+    expect(pruned).toEqual([a2.id]);
+  });
+});
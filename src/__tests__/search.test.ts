@@ -0,0 +1,53 @@
+/**
+ * search.test.ts - Tests for checkpoint search argument parsing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseTimeBound, toSearchFilter } from '../search';
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = Date.UTC(2024, 4, 10, 12, 0, 0);
+
+describe('parseTimeBound', () => {
+  it('should treat durations as time ago', () => {
+    expect(parseTimeBound('7d', now)).toBe(now - 7 * DAY);
+    expect(parseTimeBound(' 2h ', now)).toBe(now - 2 * 60 * 60 * 1000);
+  });
+
+  it('should parse absolute dates', () => {
+    expect(parseTimeBound('2024-05-01', now)).toBe(Date.UTC(2024, 4, 1));
+    expect(parseTimeBound('2024-05-01T14:00:00Z', now)).toBe(Date.UTC(2024, 4, 1, 14));
+  });
+
+  it('should reject anything else', () => {
+    expect(() => parseTimeBound('last tuesday', now)).toThrow(/Invalid date "last tuesday"/);
+  });
+});
+
+describe('toSearchFilter', () => {
+  it('should map tool arguments to a database filter', () => {
+    expect(toSearchFilter({
+      tags: ['auth'],
+      name: ' login ',
+      after: '1d',
+      before: '2024-05-10',
+      gitCommit: 'abc'
+    }, now)).toEqual({
+      tags: ['auth'],
+      name: 'login',
+      createdAfter: now - DAY,
+      createdBefore: Date.UTC(2024, 4, 10),
+      gitCommit: 'abc'
+    });
+  });
+
+  it('should leave out blank arguments', () => {
+    expect(toSearchFilter({ name: '  ', gitCommit: '' }, now)).toEqual({
+      tags: undefined,
+      name: undefined,
+      createdAfter: undefined,
+      createdBefore: undefined,
+      gitCommit: undefined
+    });
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * store.test.ts - Tests for checkpoint store selection
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  resolveStorePaths,
+  openStore,
+  MirroredCheckpointStore,
+  PROJECT_STORE_FILE
+} from '../store';
+import { CheckpointDatabase, DEFAULT_DB_PATH } from '../database';
+import { MemoryCheckpointStore } from '../memory';
+import { JsonlCheckpointStore } from '../jsonl';
+import type { StoreConfig } from '../config';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, existsSync, writeFileSync } from 'fs';
+import { homedir, tmpdir } from 'os';
+import { join } from 'path';
+
+describe('resolveStorePaths', () => {
+  it('should use the default global database', () => {
+    expect(resolveStorePaths('/project', { location: 'global' })).toEqual({
+      primary: DEFAULT_DB_PATH
+    });
+  });
+
+  it('should resolve a custom global path against the project', () => {
+    expect(resolveStorePaths('/project', { location: 'global', globalPath: '../shared.db' }))
+      .toEqual({ primary: '/shared.db' });
+  });
+
+  it('should expand ~ in the global path', () => {
+    expect(resolveStorePaths('/project', { location: 'global', globalPath: '~/checkpoints.db' }))
+      .toEqual({ primary: join(homedir(), 'checkpoints.db') });
+  });
+
+  it('should put the project store in the repository', () => {
+    expect(resolveStorePaths('/project', { location: 'project' })).toEqual({
+      primary: join('/project', PROJECT_STORE_FILE)
+    });
+  });
+
+  it('should mirror the project store into the global one', () => {
+    expect(resolveStorePaths('/project', { location: 'both', globalPath: '/data/global.db' }))
+      .toEqual({ primary: join('/project', PROJECT_STORE_FILE), mirror: '/data/global.db' });
+  });
+
+  it('should name the file after the backend', () => {
+    expect(resolveStorePaths('/project', { location: 'project', backend: 'jsonl' })).toEqual({
+      primary: join('/project', '.opencode', 'checkpoints.jsonl')
+    });
+    expect(resolveStorePaths('/project', { location: 'both', backend: 'memory' })).toEqual({
+      primary: ':memory:'
+    });
+  });
+
+  it('should reject unknown backends', () => {
+    expect(() => resolveStorePaths('/project', { location: 'global', backend: 'redis' } as unknown as StoreConfig))
+      .toThrow('Unknown checkpoint store backend "redis"');
+  });
+
+  it('should reject unknown locations', () => {
+    expect(() => resolveStorePaths('/project', { location: 'cloud' } as unknown as StoreConfig))
+      .toThrow('Unknown checkpoint store location "cloud"');
+  });
+});
+
+describe('openStore', () => {
+  let dir: string;
+  let globalPath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'test-store-'));
+    globalPath = join(dir, 'global', 'checkpoints.db');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should create the project store under .opencode', async () => {
+    const db = await openStore(dir, { location: 'project' });
+    db.close();
+
+    expect(db).toBeInstanceOf(CheckpointDatabase);
+    expect(existsSync(join(dir, PROJECT_STORE_FILE))).toBe(true);
+  });
+
+  it('should keep the project store out of git', async () => {
+    const ignoreFile = join(dir, '.opencode', '.gitignore');
+    mkdirSync(join(dir, '.opencode'));
+    writeFileSync(ignoreFile, 'node_modules');
+
+    (await openStore(dir, { location: 'project' })).close();
+    (await openStore(dir, { location: 'both', globalPath })).close();
+    (await openStore(dir, { location: 'project', backend: 'jsonl' })).close();
+
+    expect(readFileSync(ignoreFile, 'utf8')).toBe('node_modules\ncheckpoints.db*\ncheckpoints.jsonl*\n');
+  });
+
+  it('should open the configured backend', async () => {
+    const jsonl = await openStore(dir, { location: 'project', backend: 'jsonl' });
+    const memory = await openStore(dir, { location: 'project', backend: 'memory' });
+
+    expect(jsonl).toBeInstanceOf(JsonlCheckpointStore);
+    expect(jsonl.getPath()).toBe(join(dir, '.opencode', 'checkpoints.jsonl'));
+    expect(memory).toBeInstanceOf(MemoryCheckpointStore);
+  });
+
+  describe('both', () => {
+    let db: MirroredCheckpointStore;
+
+    const readGlobal = <T>(read: (global: CheckpointDatabase) => T): T => {
+      const global = new CheckpointDatabase(globalPath);
+      try {
+        return read(global);
+      } finally {
+        global.close();
+      }
+    };
+
+    beforeEach(async () => {
+      db = await openStore(dir, { location: 'both', globalPath }) as MirroredCheckpointStore;
+    });
+
+    afterEach(() => {
+      db.close();
+    });
+
+    it('should copy created checkpoints to the global store', () => {
+      const id = db.createCheckpoint({
+        sessionId: 'session-1',
+        name: 'Mirrored',
+        messageCount: 3,
+        tags: ['shared']
+      });
+
+      const original = db.getCheckpoint(id)!;
+      const [copy] = readGlobal((global) => global.listAllCheckpoints('session-1'));
+
+      expect(db.getMirrorPath()).toBe(globalPath);
+      expect(copy).toMatchObject({
+        name: 'Mirrored',
+        messageCount: 3,
+        tags: ['shared'],
+        createdAt: original.createdAt
+      });
+    });
+
+    it('should apply edits to the copy', () => {
+      const id = db.createCheckpoint({ sessionId: 'session-1', name: 'Typo', messageCount: 1 });
+
+      db.updateCheckpoint(id, { name: 'Fixed', addTags: ['edited'] });
+
+      const [copy] = readGlobal((global) => global.listAllCheckpoints('session-1'));
+      expect(copy).toMatchObject({ name: 'Fixed', tags: ['edited'] });
+    });
+
+    it('should remove the copy when a checkpoint is deleted', () => {
+      const keep = db.createCheckpoint({ sessionId: 'session-1', name: 'Keep', messageCount: 1 });
+      const drop = db.createCheckpoint({ sessionId: 'session-1', name: 'Drop', messageCount: 2 });
+      const dropToo = db.createCheckpoint({ sessionId: 'session-1', name: 'Drop too', messageCount: 3 });
+
+      db.deleteCheckpoint(drop);
+      db.deleteCheckpoints([dropToo]);
+
+      const names = readGlobal((global) => global.listAllCheckpoints('session-1').map((cp) => cp.name));
+      expect(names).toEqual(['Keep']);
+      expect(db.getCheckpoint(keep)).not.toBeNull();
+    });
+
+    it('should undelete and purge the copy', () => {
+      const id = db.createCheckpoint({ sessionId: 'session-1', name: 'Oops', messageCount: 1 });
+      db.deleteCheckpoint(id);
+
+      db.undeleteCheckpoint(id);
+      expect(readGlobal((global) => global.listAllCheckpoints('session-1').map((cp) => cp.name)))
+        .toEqual(['Oops']);
+
+      db.deleteCheckpoint(id);
+      db.purgeTrash(Date.now() + 1);
+      expect(readGlobal((global) => global.listTrash())).toEqual([]);
+    });
+
+    it('should remove copies when a session is cleaned up', () => {
+      db.createCheckpoint({ sessionId: 'session-gone', name: 'CP', messageCount: 1 });
+
+      db.deleteSessionCheckpoints('session-gone');
+
+      expect(readGlobal((global) => global.getStats().totalCheckpoints)).toBe(0);
+    });
+  });
+});
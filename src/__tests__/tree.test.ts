@@ -0,0 +1,116 @@
+/**
+ * tree.test.ts - Tests for rendering session lineage
+ */
+
+import { describe, it, expect } from 'vitest';
+import { findRootSession, renderTree, rootSessions } from '../tree';
+import type { Checkpoint, SessionLineage } from '../database';
+
+function checkpoint(id: number, sessionId: string, name: string, overrides: Partial<Checkpoint> = {}): Checkpoint {
+  return {
+    id,
+    sessionId,
+    name,
+    description: null,
+    messageCount: 0,
+    anchorMessageId: null,
+    gitCommit: null,
+    gitSnapshot: null,
+    autoTrigger: null,
+    pinned: false,
+    tags: [],
+    createdAt: id * 1000,
+    metadata: '{}',
+    ...overrides
+  };
+}
+
+function fork(sessionId: string, parentSessionId: string, checkpointId: number | null, checkpointName: string): SessionLineage {
+  return {
+    sessionId, parentSessionId, checkpointId, checkpointName,
+    gitBranch: null, worktreePath: null, createdAt: 0
+  };
+}
+
+const checkpoints = [
+  checkpoint(1, 'ses_main', 'Setup'),
+  checkpoint(2, 'ses_main', 'Before refactor'),
+  checkpoint(3, 'ses_a', 'Approach A'),
+  checkpoint(4, 'ses_main', 'After refactor', { autoTrigger: 'idle' }),
+  checkpoint(5, 'ses_other', 'Unrelated')
+];
+
+const lineage = [
+  fork('ses_a', 'ses_main', 2, 'Before refactor'),
+  fork('ses_b', 'ses_main', 2, 'Before refactor'),
+  fork('ses_a2', 'ses_a', 3, 'Approach A')
+];
+
+describe('findRootSession', () => {
+  it('should walk up to the first session', () => {
+    expect(findRootSession('ses_a2', lineage)).toBe('ses_main');
+    expect(findRootSession('ses_main', lineage)).toBe('ses_main');
+  });
+
+  it('should stop on cycles', () => {
+    const cyclic = [fork('x', 'y', null, 'cp'), fork('y', 'x', null, 'cp')];
+    expect(['x', 'y']).toContain(findRootSession('x', cyclic));
+  });
+});
+
+describe('rootSessions', () => {
+  it('should list sessions that were not forked, oldest first', () => {
+    expect(rootSessions(checkpoints, lineage)).toEqual(['ses_main', 'ses_other']);
+  });
+});
+
+describe('renderTree', () => {
+  it('should hang forks below the checkpoint they came from', () => {
+    expect(renderTree(['ses_main'], checkpoints, lineage, 'ses_a2')).toBe([
+      'session ses_main',
+      '├── #1 Setup',
+      '├── #2 Before refactor',
+      '│   ├── session ses_a',
+      '│   │   └── #3 Approach A',
+      '│   │       └── session ses_a2 ← current',
+      '│   └── session ses_b',
+      '└── #4 After refactor (auto)'
+    ].join('\n'));
+  });
+
+  it('should keep forks of deleted checkpoints under their parent session', () => {
+    const remaining = checkpoints.filter((cp) => cp.id !== 2);
+    const orphaned = [fork('ses_a', 'ses_main', null, 'Before refactor')];
+
+    expect(renderTree(['ses_main'], remaining, orphaned)).toBe([
+      'session ses_main',
+      '├── #1 Setup',
+      '├── #4 After refactor (auto)',
+      '└── session ses_a (from deleted checkpoint "Before refactor")',
+      '    └── #3 Approach A'
+    ].join('\n'));
+  });
+
+  it('should show the branch or worktree created for a fork', () => {
+    const withCode = [
+      { ...fork('ses_a', 'ses_main', 1, 'Setup'), gitBranch: 'checkpoint/setup-1' },
+      {
+        ...fork('ses_b', 'ses_main', 1, 'Setup'),
+        gitBranch: 'checkpoint/setup-1-b',
+        worktreePath: '/work/app-setup-1'
+      }
+    ];
+
+    expect(renderTree(['ses_main'], checkpoints.slice(0, 1), withCode)).toBe([
+      'session ses_main',
+      '└── #1 Setup',
+      '    ├── session ses_a [branch checkpoint/setup-1]',
+      '    └── session ses_b [worktree /work/app-setup-1]'
+    ].join('\n'));
+  });
+
+  it('should render several roots one after another', () => {
+    const output = renderTree(['ses_other', 'ses_b'], checkpoints, lineage);
+    expect(output).toBe('session ses_other\n└── #5 Unrelated\nsession ses_b');
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * auto.ts - Automatic checkpoint triggers
+ *
+ * Decides when a checkpoint should be taken without the agent asking for one:
+ * before file-mutating tools run, when the session goes idle, and every N
+ * messages. Creating the checkpoint itself is left to the plugin.
+ */
+
+import type { AutoCheckpointConfig } from './config.js';
+
+export type AutoTrigger = 'tool' | 'idle' | 'interval';
+
+export interface AutoCheckpointRequest {
+  sessionId: string;
+  trigger: AutoTrigger;
+  /** Human-readable checkpoint name, e.g. "Before edit" */
+  name: string;
+}
+
+/**
+ * Creates the checkpoint; resolves to false when it was skipped
+ * (e.g. nothing changed since the previous checkpoint)
+ */
+export type AutoCheckpointCreator = (request: AutoCheckpointRequest) => Promise<boolean>;
+
+export class AutoCheckpointer {
+  // Message IDs seen per session, for the every-N-messages trigger
+  private seenMessages = new Map<string, Set<string>>();
+  private lastIntervalMark = new Map<string, number>();
+  // One automatic checkpoint at a time per session
+  private inFlight = new Set<string>();
+
+  constructor(
+    private config: AutoCheckpointConfig,
+    private create: AutoCheckpointCreator
+  ) {}
+
+  /**
+   * Called before a tool runs (tool.execute.before hook)
+   */
+  async beforeTool(sessionId: string, tool: string): Promise<boolean> {
+    if (!this.config.enabled || !this.config.beforeTools.includes(tool)) {
+      return false;
+    }
+    return this.trigger({ sessionId, trigger: 'tool', name: `Before ${tool}` });
+  }
+
+  /**
+   * Called when a session goes idle (session.idle event)
+   */
+  async sessionIdle(sessionId: string): Promise<boolean> {
+    if (!this.config.enabled || !this.config.onIdle) {
+      return false;
+    }
+    return this.trigger({ sessionId, trigger: 'idle', name: 'Session idle' });
+  }
+
+  /**
+   * Called for every message update (message.updated event)
+   */
+  async messageSeen(sessionId: string, messageId: string): Promise<boolean> {
+    const every = this.config.everyMessages;
+    if (!this.config.enabled || every <= 0) {
+      return false;
+    }
+
+    let seen = this.seenMessages.get(sessionId);
+    if (!seen) {
+      seen = new Set();
+      this.seenMessages.set(sessionId, seen);
+    }
+    if (seen.has(messageId)) {
+      return false;
+    }
+    seen.add(messageId);
+
+    const mark = this.lastIntervalMark.get(sessionId) ?? 0;
+    if (seen.size - mark < every) {
+      return false;
+    }
+    this.lastIntervalMark.set(sessionId, seen.size);
+    return this.trigger({ sessionId, trigger: 'interval', name: `Every ${every} messages` });
+  }
+
+  /**
+   * Drop tracking state for a deleted session
+   */
+  forget(sessionId: string): void {
+    this.seenMessages.delete(sessionId);
+    this.lastIntervalMark.delete(sessionId);
+  }
+
+  private async trigger(request: AutoCheckpointRequest): Promise<boolean> {
+    if (this.inFlight.has(request.sessionId)) {
+      return false;
+    }
+
+    this.inFlight.add(request.sessionId);
+    try {
+      return await this.create(request);
+    } catch {
+      // Automatic checkpoints must never break the tool call or event that triggered them
+      return false;
+    } finally {
+      this.inFlight.delete(request.sessionId);
+    }
+  }
+}
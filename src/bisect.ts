@@ -0,0 +1,183 @@
+/**
+ * bisect.ts - Find the first checkpoint where a test command fails
+ *
+ * The checkpoints of a session, oldest first, are a ready-made bisect range:
+ * each one records the code it was taken with (its snapshot, else its
+ * commit). The newest checkpoint must fail and the oldest pass; binary search
+ * then narrows the range down to the last passing and the first failing
+ * checkpoint. Checkpoints with the same code share one test run.
+ *
+ * Each run happens in a temporary detached worktree, so the user's working
+ * tree, branches and stash are never touched.
+ */
+
+import { spawn } from 'child_process';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Checkpoint } from './store.js';
+import type { GitRepository } from './git.js';
+
+/** Characters of a run's output kept for the report (the end) */
+const OUTPUT_LENGTH = 2000;
+
+export interface TestRun {
+  passed: boolean;
+  /** Exit code; null when the command was killed */
+  exitCode: number | null;
+  timedOut: boolean;
+  /** End of stdout and stderr */
+  output: string;
+}
+
+export interface BisectStep {
+  checkpoint: Checkpoint;
+  run: TestRun;
+}
+
+export type BisectResult =
+  | { status: 'found'; lastGood: Checkpoint; firstBad: Checkpoint; steps: BisectStep[] }
+  /** The newest checkpoint passes: nothing to bisect */
+  | { status: 'passing'; steps: BisectStep[] }
+  /** The oldest checkpoint fails already */
+  | { status: 'failing'; firstBad: Checkpoint; steps: BisectStep[] };
+
+/**
+ * Code a checkpoint was taken with: its snapshot, else its commit
+ */
+export function bisectTarget(checkpoint: Checkpoint): string | undefined {
+  return checkpoint.gitSnapshot ?? checkpoint.gitCommit ?? undefined;
+}
+
+/**
+ * Checkpoints with recorded code, oldest first
+ */
+export function bisectCandidates(checkpoints: Checkpoint[]): Checkpoint[] {
+  return checkpoints
+    .filter((cp) => bisectTarget(cp) !== undefined)
+    .sort((a, b) => a.createdAt - b.createdAt || a.id - b.id);
+}
+
+/**
+ * Binary search for the first failing checkpoint
+ *
+ * @param checkpoints - Candidates, oldest first (see bisectCandidates)
+ * @param test - Runs the test command at a checkpoint's code
+ * @throws Error with fewer than two candidates
+ */
+export async function bisectCheckpoints(
+  checkpoints: Checkpoint[],
+  test: (checkpoint: Checkpoint) => Promise<TestRun>
+): Promise<BisectResult> {
+  if (checkpoints.length < 2) {
+    throw new Error('Bisecting needs at least two checkpoints with recorded code');
+  }
+
+  const steps: BisectStep[] = [];
+  const runs = new Map<string, TestRun>();
+  const passes = async (checkpoint: Checkpoint): Promise<boolean> => {
+    const target = bisectTarget(checkpoint)!;
+    let run = runs.get(target);
+    if (!run) {
+      run = await test(checkpoint);
+      runs.set(target, run);
+      steps.push({ checkpoint, run });
+    }
+    return run.passed;
+  };
+
+  let bad = checkpoints.length - 1;
+  if (await passes(checkpoints[bad])) {
+    return { status: 'passing', steps };
+  }
+  let good = 0;
+  if (!(await passes(checkpoints[good]))) {
+    return { status: 'failing', firstBad: checkpoints[good], steps };
+  }
+
+  while (bad - good > 1) {
+    const middle = Math.floor((good + bad) / 2);
+    if (await passes(checkpoints[middle])) {
+      good = middle;
+    } else {
+      bad = middle;
+    }
+  }
+
+  return { status: 'found', lastGood: checkpoints[good], firstBad: checkpoints[bad], steps };
+}
+
+/**
+ * Run a shell command in a temporary worktree at a commit; exit code 0 passes
+ */
+export async function runTestAt(
+  git: GitRepository,
+  target: string,
+  command: string,
+  timeout: number
+): Promise<TestRun> {
+  const dir = mkdtempSync(join(tmpdir(), 'checkpoint-bisect-'));
+  const worktree = join(dir, 'tree');
+
+  try {
+    git.addDetachedWorktree(worktree, target);
+
+    return await new Promise<TestRun>((resolve) => {
+      // In its own process group, so everything the command starts can be
+      // killed with it
+      const child = spawn(command, {
+        cwd: worktree,
+        shell: true,
+        detached: true,
+        stdio: ['ignore', 'pipe', 'pipe'],
+      });
+      const killGroup = (): void => {
+        try {
+          process.kill(-child.pid!, 'SIGKILL');
+        } catch {
+          // The group is gone already
+        }
+      };
+
+      let output = '';
+      const collect = (chunk: Buffer): void => {
+        // Only the end is reported; keep enough to tell whether it was cut
+        output = `${output}${chunk}`.slice(-2 * OUTPUT_LENGTH);
+      };
+      child.stdout!.on('data', collect);
+      child.stderr!.on('data', collect);
+
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        killGroup();
+      }, timeout);
+
+      // Background processes left behind would hold the output pipes open
+      child.on('exit', () => {
+        clearTimeout(timer);
+        killGroup();
+      });
+      child.on('error', (error) => {
+        clearTimeout(timer);
+        resolve({ passed: false, exitCode: null, timedOut: false, output: error.message });
+      });
+      child.on('close', (code) => {
+        const trimmed = output.trimEnd();
+        resolve({
+          passed: code === 0 && !timedOut,
+          exitCode: code,
+          timedOut,
+          output: trimmed.length > OUTPUT_LENGTH ? `…${trimmed.slice(-(OUTPUT_LENGTH - 1))}` : trimmed,
+        });
+      });
+    });
+  } finally {
+    try {
+      git.removeWorktree(worktree);
+    } catch {
+      // Git prunes the stale worktree entry once the directory is gone
+    }
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
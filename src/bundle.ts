@@ -0,0 +1,276 @@
+/**
+ * bundle.ts - Portable checkpoint bundles
+ *
+ * A bundle is a versioned JSON document holding checkpoint rows, optionally
+ * the message transcript of their sessions, and optionally a git bundle
+ * (base64) with the snapshot refs, so checkpoints can move to another
+ * machine or teammate. Checkpoint IDs are remapped on import.
+ */
+
+import type { Checkpoint, CheckpointStore } from './store.js';
+import type { SessionMessage } from './restore.js';
+import type { GitStatus } from './git.js';
+
+export const BUNDLE_FORMAT = 'opencode-checkpoint-bundle';
+export const BUNDLE_VERSION = 1;
+
+export interface BundleCheckpoint {
+  /** ID in the exporting database; remapped on import */
+  id: number;
+  sessionId: string;
+  name: string;
+  description: string | null;
+  messageCount: number;
+  anchorMessageId: string | null;
+  fingerprint?: string | null;
+  excerpt?: string | null;
+  gitCommit: string | null;
+  gitSnapshot: string | null;
+  gitStatus?: GitStatus | null;
+  autoTrigger: string | null;
+  pinned: boolean;
+  tags?: string[];
+  createdAt: number;
+  metadata: Record<string, any>;
+}
+
+export interface BundleMessage {
+  id: string;
+  role?: string;
+  createdAt?: number;
+  parts: any;
+}
+
+export interface CheckpointBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: number;
+  checkpoints: BundleCheckpoint[];
+  /** Messages per session, up to the latest exported checkpoint */
+  transcripts?: Record<string, BundleMessage[]>;
+  /** Git bundle with refs/checkpoints/* snapshot refs */
+  git?: { bundle: string; refs: string[] };
+}
+
+export interface ImportResult {
+  /** Old checkpoint ID → new checkpoint ID */
+  idMap: Map<number, number>;
+  /** Checkpoints that already existed (same session, name and creation time) */
+  skipped: number;
+  /** IDs of the checkpoints that were inserted */
+  created: number[];
+}
+
+/**
+ * Raised when a file is not a valid checkpoint bundle
+ */
+export class BundleFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BundleFormatError';
+  }
+}
+
+/**
+ * Build a bundle from checkpoint rows.
+ *
+ * Transcripts are trimmed to the last message any exported checkpoint of
+ * that session anchors on.
+ */
+export function createBundle(
+  checkpoints: Checkpoint[],
+  options: {
+    transcripts?: Record<string, SessionMessage[]>;
+    git?: { bundle: Buffer; refs: string[] };
+  } = {}
+): CheckpointBundle {
+  const bundle: CheckpointBundle = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: Date.now(),
+    checkpoints: checkpoints.map((cp) => ({
+      id: cp.id,
+      sessionId: cp.sessionId,
+      name: cp.name,
+      description: cp.description,
+      messageCount: cp.messageCount,
+      anchorMessageId: cp.anchorMessageId,
+      fingerprint: cp.fingerprint,
+      excerpt: cp.excerpt,
+      gitCommit: cp.gitCommit,
+      gitSnapshot: cp.gitSnapshot,
+      gitStatus: cp.gitStatus,
+      autoTrigger: cp.autoTrigger,
+      pinned: cp.pinned,
+      tags: cp.tags,
+      createdAt: cp.createdAt,
+      metadata: JSON.parse(cp.metadata),
+    })),
+  };
+
+  if (options.transcripts) {
+    bundle.transcripts = {};
+    for (const [sessionId, messages] of Object.entries(options.transcripts)) {
+      const sessionCheckpoints = checkpoints.filter((cp) => cp.sessionId === sessionId);
+      const end = Math.max(0, ...sessionCheckpoints.map((cp) => {
+        const anchor = cp.anchorMessageId
+          ? messages.findIndex((m) => m.id === cp.anchorMessageId)
+          : -1;
+        return anchor === -1 ? cp.messageCount : anchor + 1;
+      }));
+      bundle.transcripts[sessionId] = messages.slice(0, end).map((m) => ({
+        id: m.id,
+        role: m.role,
+        createdAt: m.createdAt,
+        parts: m.content,
+      }));
+    }
+  }
+
+  if (options.git) {
+    bundle.git = { bundle: options.git.bundle.toString('base64'), refs: options.git.refs };
+  }
+
+  return bundle;
+}
+
+/**
+ * Parse and validate a bundle
+ *
+ * @throws BundleFormatError if the document is not a supported bundle
+ */
+export function parseBundle(text: string): CheckpointBundle {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new BundleFormatError(
+      `Not valid JSON: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  if (!data || data.format !== BUNDLE_FORMAT) {
+    throw new BundleFormatError(`Not a checkpoint bundle (expected format "${BUNDLE_FORMAT}")`);
+  }
+  if (!Number.isInteger(data.version) || data.version < 1) {
+    throw new BundleFormatError('Bundle has no valid version');
+  }
+  if (data.version > BUNDLE_VERSION) {
+    throw new BundleFormatError(
+      `Bundle version ${data.version} is newer than supported version ${BUNDLE_VERSION}`
+    );
+  }
+  if (!Array.isArray(data.checkpoints)) {
+    throw new BundleFormatError('Bundle has no checkpoints array');
+  }
+
+  data.checkpoints.forEach((cp: any, index: number) => {
+    const problem = validateCheckpoint(cp);
+    if (problem) {
+      throw new BundleFormatError(`Checkpoint #${index + 1}: ${problem}`);
+    }
+  });
+
+  if (data.git !== undefined) {
+    if (typeof data.git?.bundle !== 'string' || !Array.isArray(data.git?.refs)) {
+      throw new BundleFormatError('Bundle git section needs "bundle" and "refs"');
+    }
+  }
+
+  return data as CheckpointBundle;
+}
+
+// Full SHA-1 or SHA-256 object name; these values end up in git arguments
+const GIT_HASH = /^(?:[0-9a-f]{40}|[0-9a-f]{64})$/;
+
+function validateCheckpoint(cp: any): string | undefined {
+  if (!cp || typeof cp !== 'object') return 'not an object';
+  if (!Number.isInteger(cp.id)) return 'id must be an integer';
+  if (typeof cp.sessionId !== 'string' || !cp.sessionId) return 'sessionId is required';
+  if (typeof cp.name !== 'string' || !cp.name) return 'name is required';
+  if (!Number.isInteger(cp.messageCount) || cp.messageCount < 0) {
+    return 'messageCount must be a non-negative integer';
+  }
+  if (!Number.isFinite(cp.createdAt)) return 'createdAt must be a timestamp';
+  for (const field of [
+    'description', 'anchorMessageId', 'fingerprint', 'excerpt', 'gitCommit', 'gitSnapshot',
+    'autoTrigger'
+  ]) {
+    if (cp[field] !== null && cp[field] !== undefined && typeof cp[field] !== 'string') {
+      return `${field} must be a string or null`;
+    }
+  }
+  for (const field of ['gitCommit', 'gitSnapshot']) {
+    if (typeof cp[field] === 'string' && !GIT_HASH.test(cp[field])) {
+      return `${field} must be a 40- or 64-character hex commit hash`;
+    }
+  }
+  if (cp.tags !== undefined &&
+      (!Array.isArray(cp.tags) || cp.tags.some((tag: unknown) => typeof tag !== 'string'))) {
+    return 'tags must be an array of strings';
+  }
+  if (cp.gitStatus !== undefined && cp.gitStatus !== null &&
+      (typeof cp.gitStatus !== 'object' || typeof cp.gitStatus.dirty !== 'boolean')) {
+    return 'gitStatus must be an object or null';
+  }
+  if (cp.metadata !== undefined && (typeof cp.metadata !== 'object' || cp.metadata === null)) {
+    return 'metadata must be an object';
+  }
+  return undefined;
+}
+
+/**
+ * Insert the bundle's checkpoints with fresh IDs, skipping ones that exist.
+ * Imported checkpoints belong to the importing project directory.
+ */
+export function importCheckpoints(
+  db: CheckpointStore,
+  bundle: CheckpointBundle,
+  directory?: string
+): ImportResult {
+  const idMap = new Map<number, number>();
+  const created: number[] = [];
+  let skipped = 0;
+
+  const existing = new Map<string, Checkpoint[]>();
+  const existingFor = (sessionId: string): Checkpoint[] => {
+    if (!existing.has(sessionId)) {
+      existing.set(sessionId, db.listAllCheckpoints(sessionId));
+    }
+    return existing.get(sessionId)!;
+  };
+
+  for (const cp of bundle.checkpoints) {
+    const duplicate = existingFor(cp.sessionId).find(
+      (e) => e.name === cp.name && e.createdAt === cp.createdAt
+    );
+    if (duplicate) {
+      idMap.set(cp.id, duplicate.id);
+      skipped++;
+      continue;
+    }
+
+    const newId = db.createCheckpoint({
+      sessionId: cp.sessionId,
+      name: cp.name,
+      description: cp.description ?? undefined,
+      messageCount: cp.messageCount,
+      anchorMessageId: cp.anchorMessageId ?? undefined,
+      fingerprint: cp.fingerprint ?? undefined,
+      excerpt: cp.excerpt ?? undefined,
+      gitCommit: cp.gitCommit ?? undefined,
+      gitSnapshot: cp.gitSnapshot ?? undefined,
+      gitStatus: cp.gitStatus ?? undefined,
+      autoTrigger: cp.autoTrigger ?? undefined,
+      pinned: cp.pinned,
+      tags: cp.tags,
+      directory,
+      createdAt: cp.createdAt,
+      metadata: { ...cp.metadata, importedFrom: cp.id },
+    });
+    idMap.set(cp.id, newId);
+    created.push(newId);
+  }
+
+  return { idMap, skipped, created };
+}
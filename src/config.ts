@@ -0,0 +1,130 @@
+/**
+ * config.ts - Plugin configuration
+ *
+ * Read from `checkpoint.json` in OpenCode's global config directory
+ * (`~/.config/opencode`) and from `.opencode/checkpoint.json` in the project
+ * directory, merged in that order over the defaults below. Every key is
+ * optional.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import type { RetentionPolicy } from './retention.js';
+
+export interface AutoCheckpointConfig {
+  /** Master switch for all automatic checkpoints */
+  enabled: boolean;
+  /** Tools that get a checkpoint before they run (file-mutating tools) */
+  beforeTools: string[];
+  /** Checkpoint when the session goes idle */
+  onIdle: boolean;
+  /** Checkpoint every N new messages (0 disables) */
+  everyMessages: number;
+}
+
+export interface RetentionConfig extends RetentionPolicy {
+  /** Prune the session after every automatic checkpoint */
+  autoPrune: boolean;
+}
+
+export type StoreLocation = 'global' | 'project' | 'both';
+
+export type StoreBackend = 'sqlite' | 'jsonl' | 'memory';
+
+export interface StoreConfig {
+  /**
+   * sqlite (default): SQLite database; jsonl: one JSON object per line;
+   * memory: nothing is written to disk (lost when OpenCode exits)
+   */
+  backend?: StoreBackend;
+  /**
+   * global: one database for every project; project: `.opencode/checkpoints.db`
+   * in the project; both: the project database, mirrored into the global one
+   */
+  location: StoreLocation;
+  /** Global store path (absolute, `~/...`, or relative to the project directory) */
+  globalPath?: string;
+}
+
+export interface TrashConfig {
+  /** How long deleted checkpoints can be undeleted before they are purged (e.g. 7d) */
+  gracePeriod: string;
+}
+
+export interface CheckpointConfig {
+  autoCheckpoint: AutoCheckpointConfig;
+  retention: RetentionConfig;
+  store: StoreConfig;
+  trash: TrashConfig;
+}
+
+export const CONFIG_FILE = join('.opencode', 'checkpoint.json');
+
+/**
+ * OpenCode's global config directory ($XDG_CONFIG_HOME/opencode)
+ */
+export function globalConfigDirectory(): string {
+  return join(process.env.XDG_CONFIG_HOME || join(homedir(), '.config'), 'opencode');
+}
+
+export const DEFAULT_CONFIG: CheckpointConfig = {
+  autoCheckpoint: {
+    enabled: false,
+    beforeTools: ['edit', 'write', 'patch', 'bash'],
+    onIdle: true,
+    everyMessages: 20,
+  },
+  retention: {
+    keepLast: 20,
+    maxAge: '30d',
+    thinning: [
+      { within: '1d', every: '1h' },
+      { within: '7d', every: '1d' },
+    ],
+    autoPrune: true,
+  },
+  store: {
+    location: 'global',
+  },
+  trash: {
+    gracePeriod: '7d',
+  },
+};
+
+type ConfigFile = Partial<{ [K in keyof CheckpointConfig]: Partial<CheckpointConfig[K]> }>;
+
+/**
+ * Load the configuration for a project directory
+ *
+ * @throws Error if a config file exists but is not valid JSON
+ */
+export function loadConfig(
+  directory: string,
+  globalDirectory: string = globalConfigDirectory()
+): CheckpointConfig {
+  const files = [
+    join(globalDirectory, 'checkpoint.json'),
+    join(directory, CONFIG_FILE),
+  ].filter((path) => existsSync(path));
+
+  let config = structuredClone(DEFAULT_CONFIG);
+  for (const path of files) {
+    let raw: ConfigFile;
+    try {
+      raw = JSON.parse(readFileSync(path, 'utf8'));
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid checkpoint config ${path}: ${reason}`);
+    }
+
+    config = structuredClone({
+      autoCheckpoint: { ...config.autoCheckpoint, ...raw.autoCheckpoint },
+      retention: { ...config.retention, ...raw.retention },
+      store: { ...config.store, ...raw.store },
+      trash: { ...config.trash, ...raw.trash },
+    });
+  }
+
+  return config;
+}
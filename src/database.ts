@@ -1,102 +1,249 @@
 /**
  * database.ts - SQLite database manager for checkpoint storage
  * 
- * This layer manages checkpoint persistence using better-sqlite3.
+ * The default CheckpointStore, using better-sqlite3.
  * Design: Leverage OpenCode's existing session storage, add checkpoint metadata.
  */
 
 import Database from 'better-sqlite3';
 import { homedir } from 'os';
-import { join } from 'path';
+import { dirname, join } from 'path';
 import { mkdirSync, existsSync } from 'fs';
+import { migrate, getSchemaVersion } from './migrations.js';
+import { FIELD_WEIGHTS, HIGHLIGHT, SNIPPET_WORDS, queryTerms, toFtsQuery } from './find.js';
+import {
+  normalizeTags,
+  type Checkpoint,
+  type CheckpointCreate,
+  type CheckpointEvent,
+  type CheckpointEventRecord,
+  type CheckpointMatch,
+  type CheckpointQuery,
+  type CheckpointSearch,
+  type CheckpointStore,
+  type CheckpointUpdate,
+  type EventFilter,
+  type LineageRecord,
+  type SessionLineage,
+  type TrashFilter,
+} from './store.js';
 
-export interface Checkpoint {
-  id: number;
-  sessionId: string;
-  name: string;
-  description: string | null;
-  messageCount: number;
-  gitCommit: string | null;
-  createdAt: number;
-  metadata: string; // JSON string
+// Record types moved to store.ts; re-exported for existing importers
+export type {
+  Checkpoint,
+  CheckpointCreate,
+  CheckpointEvent,
+  CheckpointEventRecord,
+  CheckpointMatch,
+  CheckpointQuery,
+  CheckpointSearch,
+  CheckpointUpdate,
+  EventFilter,
+  LineageRecord,
+  SessionLineage,
+  TrashFilter,
+} from './store.js';
+export { normalizeTags } from './store.js';
+
+/** Default store: ~/.local/share/opencode/checkpoints.db */
+export const DEFAULT_DB_PATH = join(homedir(), '.local', 'share', 'opencode', 'checkpoints.db');
+
+const CHECKPOINT_COLUMNS = `
+  id,
+  session_id as sessionId,
+  name,
+  description,
+  message_count as messageCount,
+  anchor_message_id as anchorMessageId,
+  fingerprint,
+  excerpt,
+  git_commit as gitCommit,
+  git_snapshot as gitSnapshot,
+  git_status as gitStatus,
+  auto_trigger as autoTrigger,
+  pinned,
+  (
+    SELECT json_group_array(tag) FROM (
+      SELECT tag FROM checkpoint_tags WHERE checkpoint_id = checkpoints.id ORDER BY tag
+    )
+  ) as tags,
+  directory,
+  created_at as createdAt,
+  updated_at as updatedAt,
+  deleted_at as deletedAt,
+  metadata
+`;
+
+const LINEAGE_COLUMNS = `
+  session_id as sessionId,
+  parent_session_id as parentSessionId,
+  checkpoint_id as checkpointId,
+  checkpoint_name as checkpointName,
+  git_branch as gitBranch,
+  worktree_path as worktreePath,
+  created_at as createdAt
+`;
+
+const EVENT_COLUMNS = `
+  id,
+  action,
+  checkpoint_id as checkpointId,
+  checkpoint_name as checkpointName,
+  session_id as sessionId,
+  agent,
+  directory,
+  success,
+  error,
+  fork_session_id as forkSessionId,
+  details,
+  created_at as createdAt
+`;
+
+type CheckpointRow = Omit<Checkpoint, 'pinned' | 'tags' | 'gitStatus'> & {
+  pinned: number;
+  tags: string;
+  gitStatus: string | null;
+};
+
+// SQLite has no boolean type; flags come back as 0/1
+function toCheckpoint(row: CheckpointRow): Checkpoint {
+  return {
+    ...row,
+    pinned: row.pinned === 1,
+    tags: JSON.parse(row.tags),
+    gitStatus: row.gitStatus ? JSON.parse(row.gitStatus) : null,
+  };
 }
 
-export interface CheckpointCreate {
-  sessionId: string;
-  name: string;
-  description?: string;
-  messageCount: number;
-  gitCommit?: string;
-  metadata?: Record<string, any>;
+// Escape LIKE wildcards so user input matches literally (used with ESCAPE '\')
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (c) => `\\${c}`);
 }
 
-export class CheckpointDatabase {
+export class CheckpointDatabase implements CheckpointStore {
+  readonly backend = 'sqlite';
   private db: Database.Database;
   private readonly dbPath: string;
 
   constructor(dbPath?: string) {
-    // Default: ~/.local/share/opencode/checkpoints.db
-    this.dbPath = dbPath || join(
-      homedir(),
-      '.local',
-      'share',
-      'opencode',
-      'checkpoints.db'
-    );
+    this.dbPath = dbPath || DEFAULT_DB_PATH;
 
-    // Ensure directory exists
-    const dir = join(homedir(), '.local', 'share', 'opencode');
-    if (!existsSync(dir)) {
+    // Ensure the database's own directory exists
+    const dir = dirname(this.dbPath);
+    if (this.dbPath !== ':memory:' && !existsSync(dir)) {
       mkdirSync(dir, { recursive: true });
     }
 
     this.db = new Database(this.dbPath);
+    // Tags and lineage links follow their checkpoint when it is deleted
+    this.db.pragma('foreign_keys = ON');
     this.initializeSchema();
   }
 
   private initializeSchema(): void {
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS checkpoints (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        session_id TEXT NOT NULL,
-        name TEXT NOT NULL,
-        description TEXT,
-        message_count INTEGER NOT NULL,
-        git_commit TEXT,
-        created_at INTEGER NOT NULL,
-        metadata TEXT NOT NULL DEFAULT '{}'
-      );
-
-      CREATE INDEX IF NOT EXISTS idx_checkpoints_session 
-        ON checkpoints(session_id, created_at DESC);
-      
-      CREATE INDEX IF NOT EXISTS idx_checkpoints_name 
-        ON checkpoints(session_id, name);
-    `);
+    try {
+      migrate(this.db, this.dbPath);
+    } catch (error) {
+      // Don't leave a handle open on a database we refuse to use
+      this.db.close();
+      throw error;
+    }
   }
 
   /**
    * Create a new checkpoint
    */
   createCheckpoint(data: CheckpointCreate): number {
-    const stmt = this.db.prepare(`
+    const insert = this.db.prepare(`
       INSERT INTO checkpoints (
-        session_id, name, description, message_count, 
-        git_commit, created_at, metadata
-      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+        session_id, name, description, message_count, anchor_message_id, fingerprint,
+        excerpt, git_commit, git_snapshot, git_status, auto_trigger, pinned, directory,
+        created_at, updated_at, metadata
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
-    const result = stmt.run(
-      data.sessionId,
-      data.name,
-      data.description || null,
-      data.messageCount,
-      data.gitCommit || null,
-      Date.now(),
-      JSON.stringify(data.metadata || {})
+    const insertTag = this.db.prepare(
+      'INSERT INTO checkpoint_tags (checkpoint_id, tag) VALUES (?, ?)'
     );
 
-    return result.lastInsertRowid as number;
+    const createdAt = data.createdAt ?? Date.now();
+
+    const create = this.db.transaction(() => {
+      const result = insert.run(
+        data.sessionId,
+        data.name,
+        data.description || null,
+        data.messageCount,
+        data.anchorMessageId || null,
+        data.fingerprint || null,
+        data.excerpt || null,
+        data.gitCommit || null,
+        data.gitSnapshot || null,
+        data.gitStatus ? JSON.stringify(data.gitStatus) : null,
+        data.autoTrigger || null,
+        data.pinned ? 1 : 0,
+        data.directory || null,
+        createdAt,
+        createdAt,
+        JSON.stringify(data.metadata || {})
+      );
+
+      const id = result.lastInsertRowid as number;
+      for (const tag of normalizeTags(data.tags ?? [])) {
+        insertTag.run(id, tag);
+      }
+      return id;
+    });
+
+    return create();
+  }
+
+  /**
+   * Rename, describe, pin, merge metadata into or retag a checkpoint
+   *
+   * @returns The updated checkpoint, or null if it does not exist
+   */
+  updateCheckpoint(id: number, changes: CheckpointUpdate): Checkpoint | null {
+    const update = this.db.transaction(() => {
+      const current = this.getCheckpoint(id);
+      if (!current) {
+        return null;
+      }
+
+      const metadata = changes.metadata
+        ? { ...JSON.parse(current.metadata), ...changes.metadata }
+        : JSON.parse(current.metadata);
+
+      this.db.prepare(`
+        UPDATE checkpoints
+        SET name = ?, description = ?, pinned = ?, metadata = ?, updated_at = ?
+        WHERE id = ?
+      `).run(
+        changes.name ?? current.name,
+        changes.description === undefined ? current.description : changes.description || null,
+        (changes.pinned ?? current.pinned) ? 1 : 0,
+        JSON.stringify(metadata),
+        Date.now(),
+        id
+      );
+
+      const insertTag = this.db.prepare(
+        'INSERT OR IGNORE INTO checkpoint_tags (checkpoint_id, tag) VALUES (?, ?)'
+      );
+      for (const tag of normalizeTags(changes.addTags ?? [])) {
+        insertTag.run(id, tag);
+      }
+      const deleteTag = this.db.prepare(
+        'DELETE FROM checkpoint_tags WHERE checkpoint_id = ? AND tag = ?'
+      );
+      for (const tag of normalizeTags(changes.removeTags ?? [])) {
+        deleteTag.run(id, tag);
+      }
+
+      return this.getCheckpoint(id);
+    });
+
+    return update();
   }
 
   /**
@@ -104,20 +251,13 @@ export class CheckpointDatabase {
    */
   getCheckpoint(id: number): Checkpoint | null {
     const stmt = this.db.prepare(`
-      SELECT 
-        id,
-        session_id as sessionId,
-        name,
-        description,
-        message_count as messageCount,
-        git_commit as gitCommit,
-        created_at as createdAt,
-        metadata
+      SELECT ${CHECKPOINT_COLUMNS}
       FROM checkpoints
-      WHERE id = ?
+      WHERE id = ? AND deleted_at IS NULL
     `);
 
-    return (stmt.get(id) as Checkpoint) ?? null;
+    const row = stmt.get(id) as CheckpointRow | undefined;
+    return row ? toCheckpoint(row) : null;
   }
 
   /**
@@ -125,22 +265,120 @@ export class CheckpointDatabase {
    */
   listCheckpoints(sessionId: string, limit = 50): Checkpoint[] {
     const stmt = this.db.prepare(`
-      SELECT 
-        id,
-        session_id as sessionId,
-        name,
-        description,
-        message_count as messageCount,
-        git_commit as gitCommit,
-        created_at as createdAt,
-        metadata
+      SELECT ${CHECKPOINT_COLUMNS}
       FROM checkpoints
-      WHERE session_id = ?
+      WHERE session_id = ? AND deleted_at IS NULL
       ORDER BY created_at DESC, id DESC
       LIMIT ?
     `);
 
-    return stmt.all(sessionId, limit) as Checkpoint[];
+    return (stmt.all(sessionId, limit) as CheckpointRow[]).map(toCheckpoint);
+  }
+
+  /**
+   * List every checkpoint, optionally limited to one session (no row limit)
+   */
+  listAllCheckpoints(sessionId?: string): Checkpoint[] {
+    const stmt = this.db.prepare(`
+      SELECT ${CHECKPOINT_COLUMNS}
+      FROM checkpoints
+      WHERE (? IS NULL OR session_id = ?) AND deleted_at IS NULL
+      ORDER BY session_id, created_at DESC, id DESC
+    `);
+
+    const sessionFilter = sessionId ?? null;
+    return (stmt.all(sessionFilter, sessionFilter) as CheckpointRow[]).map(toCheckpoint);
+  }
+
+  /**
+   * Search checkpoints by tags, name, creation date and git commit
+   */
+  searchCheckpoints(filter: CheckpointSearch): Checkpoint[] {
+    const conditions: string[] = ['deleted_at IS NULL'];
+    const params: (string | number)[] = [];
+
+    if (filter.sessionId) {
+      conditions.push('session_id = ?');
+      params.push(filter.sessionId);
+    }
+    if (filter.directory) {
+      conditions.push('directory = ?');
+      params.push(filter.directory);
+    }
+    for (const tag of normalizeTags(filter.tags ?? [])) {
+      conditions.push(
+        'EXISTS (SELECT 1 FROM checkpoint_tags t WHERE t.checkpoint_id = checkpoints.id AND t.tag = ?)'
+      );
+      params.push(tag);
+    }
+    if (filter.name) {
+      conditions.push("name LIKE ? ESCAPE '\\'");
+      params.push(`%${escapeLike(filter.name)}%`);
+    }
+    if (filter.createdAfter !== undefined) {
+      conditions.push('created_at >= ?');
+      params.push(filter.createdAfter);
+    }
+    if (filter.createdBefore !== undefined) {
+      conditions.push('created_at <= ?');
+      params.push(filter.createdBefore);
+    }
+    if (filter.gitCommit) {
+      conditions.push("git_commit LIKE ? ESCAPE '\\'");
+      params.push(`${escapeLike(filter.gitCommit.toLowerCase())}%`);
+    }
+
+    const stmt = this.db.prepare(`
+      SELECT ${CHECKPOINT_COLUMNS}
+      FROM checkpoints
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY created_at DESC, id DESC
+      LIMIT ?
+    `);
+
+    return (stmt.all(...params, filter.limit ?? 50) as CheckpointRow[]).map(toCheckpoint);
+  }
+
+  /**
+   * Full-text search over names, descriptions and conversation excerpts,
+   * ranked by bm25 (best first)
+   */
+  findCheckpoints(query: CheckpointQuery): CheckpointMatch[] {
+    const terms = queryTerms(query.text);
+    if (terms.length === 0) {
+      return [];
+    }
+
+    const conditions: string[] = ['deleted_at IS NULL'];
+    const params: (string | number)[] = [toFtsQuery(terms)];
+    if (query.sessionId) {
+      conditions.push('session_id = ?');
+      params.push(query.sessionId);
+    }
+    if (query.directory) {
+      conditions.push('directory = ?');
+      params.push(query.directory);
+    }
+
+    const { name, description, excerpt } = FIELD_WEIGHTS;
+    const stmt = this.db.prepare(`
+      SELECT ${CHECKPOINT_COLUMNS}, m.snippet
+      FROM checkpoints
+      JOIN (
+        SELECT
+          rowid,
+          snippet(checkpoints_fts, -1, '${HIGHLIGHT}', '${HIGHLIGHT}', '…', ${SNIPPET_WORDS}) as snippet,
+          bm25(checkpoints_fts, ${name}, ${description}, ${excerpt}) as score
+        FROM checkpoints_fts
+        WHERE checkpoints_fts MATCH ?
+      ) m ON m.rowid = checkpoints.id
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY m.score, created_at DESC, id DESC
+      LIMIT ?
+    `);
+
+    const rows = stmt.all(...params, query.limit ?? 20) as (CheckpointRow & { snippet: string })[];
+    return rows.map(({ snippet, ...row }) => ({ checkpoint: toCheckpoint(row), snippet }));
   }
 
   /**
@@ -148,40 +386,225 @@ export class CheckpointDatabase {
    */
   findCheckpointByName(sessionId: string, name: string): Checkpoint | null {
     const stmt = this.db.prepare(`
-      SELECT 
-        id,
-        session_id as sessionId,
-        name,
-        description,
-        message_count as messageCount,
-        git_commit as gitCommit,
-        created_at as createdAt,
-        metadata
+      SELECT ${CHECKPOINT_COLUMNS}
       FROM checkpoints
-      WHERE session_id = ? AND name = ?
+      WHERE session_id = ? AND name = ? AND deleted_at IS NULL
       ORDER BY created_at DESC, id DESC
       LIMIT 1
     `);
 
-    return (stmt.get(sessionId, name) as Checkpoint) ?? null;
+    const row = stmt.get(sessionId, name) as CheckpointRow | undefined;
+    return row ? toCheckpoint(row) : null;
   }
 
   /**
-   * Delete a checkpoint
+   * Find checkpoint by name in any session of a project (most recent if multiple)
+   */
+  findProjectCheckpointByName(directory: string, name: string): Checkpoint | null {
+    const stmt = this.db.prepare(`
+      SELECT ${CHECKPOINT_COLUMNS}
+      FROM checkpoints
+      WHERE directory = ? AND name = ? AND deleted_at IS NULL
+      ORDER BY created_at DESC, id DESC
+      LIMIT 1
+    `);
+
+    const row = stmt.get(directory, name) as CheckpointRow | undefined;
+    return row ? toCheckpoint(row) : null;
+  }
+
+  /**
+   * Move a checkpoint to the trash
    */
   deleteCheckpoint(id: number): boolean {
-    const stmt = this.db.prepare('DELETE FROM checkpoints WHERE id = ?');
-    const result = stmt.run(id);
-    return result.changes > 0;
+    return this.deleteCheckpoints([id]) > 0;
   }
 
   /**
-   * Delete all checkpoints for a session
+   * Move several checkpoints to the trash in one transaction
+   */
+  deleteCheckpoints(ids: number[]): number {
+    const stmt = this.db.prepare(
+      'UPDATE checkpoints SET deleted_at = ? WHERE id = ? AND deleted_at IS NULL'
+    );
+    const now = Date.now();
+    const deleteAll = this.db.transaction((toDelete: number[]) =>
+      toDelete.reduce((count, id) => count + stmt.run(now, id).changes, 0)
+    );
+    return deleteAll(ids);
+  }
+
+  /**
+   * Move all checkpoints of a session to the trash, except pinned ones
    */
   deleteSessionCheckpoints(sessionId: string): number {
-    const stmt = this.db.prepare('DELETE FROM checkpoints WHERE session_id = ?');
-    const result = stmt.run(sessionId);
-    return result.changes;
+    const stmt = this.db.prepare(`
+      UPDATE checkpoints SET deleted_at = ?
+      WHERE session_id = ? AND pinned = 0 AND deleted_at IS NULL
+    `);
+    return stmt.run(Date.now(), sessionId).changes;
+  }
+
+  /**
+   * List trashed checkpoints, most recently deleted first
+   */
+  listTrash(filter: TrashFilter = {}): Checkpoint[] {
+    const conditions = ['deleted_at IS NOT NULL'];
+    const params: string[] = [];
+    if (filter.sessionId) {
+      conditions.push('session_id = ?');
+      params.push(filter.sessionId);
+    }
+    if (filter.directory) {
+      conditions.push('directory = ?');
+      params.push(filter.directory);
+    }
+
+    const stmt = this.db.prepare(`
+      SELECT ${CHECKPOINT_COLUMNS}
+      FROM checkpoints
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY deleted_at DESC, id DESC
+    `);
+
+    return (stmt.all(...params) as CheckpointRow[]).map(toCheckpoint);
+  }
+
+  /**
+   * Take a checkpoint back out of the trash
+   */
+  undeleteCheckpoint(id: number): Checkpoint | null {
+    const stmt = this.db.prepare(
+      'UPDATE checkpoints SET deleted_at = NULL WHERE id = ? AND deleted_at IS NOT NULL'
+    );
+    return stmt.run(id).changes > 0 ? this.getCheckpoint(id) : null;
+  }
+
+  /**
+   * Permanently remove checkpoints trashed before a time, optionally only
+   * those of one project directory
+   */
+  purgeTrash(deletedBefore: number, directory?: string): number {
+    if (directory) {
+      const stmt = this.db.prepare('DELETE FROM checkpoints WHERE deleted_at < ? AND directory = ?');
+      return stmt.run(deletedBefore, directory).changes;
+    }
+    const stmt = this.db.prepare('DELETE FROM checkpoints WHERE deleted_at < ?');
+    return stmt.run(deletedBefore).changes;
+  }
+
+  /**
+   * Record that a session was forked from a checkpoint
+   */
+  recordLineage(data: LineageRecord): void {
+    const stmt = this.db.prepare(`
+      INSERT OR REPLACE INTO session_lineage (
+        session_id, parent_session_id, checkpoint_id, checkpoint_name,
+        git_branch, worktree_path, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    stmt.run(
+      data.sessionId,
+      data.parentSessionId,
+      data.checkpointId,
+      data.checkpointName,
+      data.gitBranch ?? null,
+      data.worktreePath ?? null,
+      Date.now()
+    );
+  }
+
+  /**
+   * Get the parent of a forked session (null for sessions not created by restore)
+   */
+  getLineage(sessionId: string): SessionLineage | null {
+    const stmt = this.db.prepare(`
+      SELECT ${LINEAGE_COLUMNS}
+      FROM session_lineage
+      WHERE session_id = ?
+    `);
+
+    return (stmt.get(sessionId) as SessionLineage | undefined) ?? null;
+  }
+
+  /**
+   * List every recorded fork, oldest first
+   */
+  listLineage(): SessionLineage[] {
+    const stmt = this.db.prepare(`
+      SELECT ${LINEAGE_COLUMNS}
+      FROM session_lineage
+      ORDER BY created_at, session_id
+    `);
+
+    return stmt.all() as SessionLineage[];
+  }
+
+  /**
+   * Append an entry to the audit log
+   */
+  recordEvent(event: CheckpointEventRecord): void {
+    this.db.prepare(`
+      INSERT INTO checkpoint_events (
+        action, checkpoint_id, checkpoint_name, session_id, agent, directory,
+        success, error, fork_session_id, details, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      event.action,
+      event.checkpointId ?? null,
+      event.checkpointName ?? null,
+      event.sessionId ?? null,
+      event.agent ?? null,
+      event.directory ?? null,
+      event.success === false ? 0 : 1,
+      event.error || null,
+      event.forkSessionId || null,
+      JSON.stringify(event.details || {}),
+      Date.now()
+    );
+  }
+
+  /**
+   * Query the audit log, newest first
+   */
+  listEvents(filter: EventFilter = {}): CheckpointEvent[] {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (filter.checkpointId !== undefined) {
+      conditions.push('checkpoint_id = ?');
+      params.push(filter.checkpointId);
+    }
+    if (filter.sessionId) {
+      conditions.push('(session_id = ? OR fork_session_id = ?)');
+      params.push(filter.sessionId, filter.sessionId);
+    }
+    if (filter.directory) {
+      conditions.push('directory = ?');
+      params.push(filter.directory);
+    }
+    if (filter.action) {
+      conditions.push('action = ?');
+      params.push(filter.action);
+    }
+    if (filter.since !== undefined) {
+      conditions.push('created_at >= ?');
+      params.push(filter.since);
+    }
+
+    const stmt = this.db.prepare(`
+      SELECT ${EVENT_COLUMNS}
+      FROM checkpoint_events
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY created_at DESC, id DESC
+      LIMIT ?
+    `);
+
+    const rows = stmt.all(...params, filter.limit ?? 50) as (Omit<CheckpointEvent, 'success'> & {
+      success: number;
+    })[];
+    return rows.map((row) => ({ ...row, success: row.success === 1 }));
   }
 
   /**
@@ -193,11 +616,19 @@ export class CheckpointDatabase {
         COUNT(*) as totalCheckpoints,
         COUNT(DISTINCT session_id) as totalSessions
       FROM checkpoints
+      WHERE deleted_at IS NULL
     `);
 
     return stmt.get() as { totalCheckpoints: number; totalSessions: number };
   }
 
+  /**
+   * Get schema version of the open database
+   */
+  getSchemaVersion(): number {
+    return getSchemaVersion(this.db);
+  }
+
   /**
    * Close database connection
    */
@@ -0,0 +1,97 @@
+/**
+ * diff.ts - Compare the conversation between two checkpoints
+ *
+ * Summarizes the messages that were added after one checkpoint and up to
+ * another: role, tool calls and a short text excerpt per message. The code
+ * side of a checkpoint diff is a plain `git diff` (see GitRepository.diff).
+ */
+
+import type { Checkpoint } from './store.js';
+import { resolveAnchor, type SessionMessage } from './restore.js';
+
+export interface MessageSummary {
+  /** 1-based position in the session */
+  position: number;
+  id: string;
+  role: string;
+  tools: string[];
+  excerpt: string;
+}
+
+export type ConversationDiff =
+  | { messages: MessageSummary[]; swapped: boolean }
+  | { error: string };
+
+const EXCERPT_LENGTH = 80;
+
+/**
+ * Summarize one message from its parts
+ */
+export function summarizeMessage(message: SessionMessage, position: number): MessageSummary {
+  const parts: any[] = Array.isArray(message.content)
+    ? message.content
+    : [{ type: 'text', text: String(message.content ?? '') }];
+
+  const tools = parts
+    .filter((part) => part?.type === 'tool' && typeof part.tool === 'string')
+    .map((part) => part.tool as string);
+
+  const text = parts
+    .filter((part) => part?.type === 'text' && typeof part.text === 'string')
+    .map((part) => part.text as string)
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return {
+    position,
+    id: message.id,
+    role: message.role ?? 'unknown',
+    tools,
+    excerpt: text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH - 1)}…` : text,
+  };
+}
+
+/**
+ * Messages added after `from` and up to (including) the anchor of `to`.
+ * Checkpoints given in reverse order are swapped.
+ */
+export function conversationBetween(
+  messages: SessionMessage[],
+  from: Checkpoint,
+  to: Checkpoint
+): ConversationDiff {
+  if (from.sessionId !== to.sessionId) {
+    return { error: 'Checkpoints belong to different sessions' };
+  }
+
+  const start = resolveAnchor(from, messages);
+  if ('error' in start) {
+    return { error: `${from.name}: ${start.error}` };
+  }
+  const end = resolveAnchor(to, messages);
+  if ('error' in end) {
+    return { error: `${to.name}: ${end.error}` };
+  }
+
+  const swapped = start.messageCount > end.messageCount;
+  const [lower, upper] = swapped
+    ? [end.messageCount, start.messageCount]
+    : [start.messageCount, end.messageCount];
+
+  return {
+    messages: messages
+      .slice(lower, upper)
+      .map((message, i) => summarizeMessage(message, lower + i + 1)),
+    swapped,
+  };
+}
+
+/**
+ * One line per message, e.g. `  12. assistant [edit, bash]: "Refactoring…"`
+ */
+export function formatMessageSummary(summary: MessageSummary): string {
+  const tools = summary.tools.length > 0 ? ` [${summary.tools.join(', ')}]` : '';
+  const excerpt = summary.excerpt ? `: "${summary.excerpt}"` : '';
+  return `  ${summary.position}. ${summary.role}${tools}${excerpt}`;
+}
@@ -0,0 +1,161 @@
+/**
+ * find.ts - Full-text search over checkpoints
+ *
+ * A checkpoint is found by its name, its description and an excerpt of the
+ * conversation right before it, captured when it is created. The SQLite
+ * store searches an FTS5 index; the other stores score the same fields with
+ * `matchCheckpoint()`. Queries are plain language ("where did we decide on
+ * GraphQL"): common words are dropped and any remaining word may match, the
+ * best matches first.
+ */
+
+import type { Checkpoint } from './store.js';
+import type { SessionMessage } from './restore.js';
+
+/** Messages up to the anchor that go into the excerpt */
+const EXCERPT_MESSAGES = 6;
+/** Characters kept of the excerpt (the end, closest to the anchor) */
+const EXCERPT_LENGTH = 2000;
+/** Words shown in a snippet */
+export const SNIPPET_WORDS = 16;
+/** Marks around matched words in snippets */
+export const HIGHLIGHT = '**';
+
+// Name matches count most, the excerpt least (also the FTS5 bm25 weights)
+export const FIELD_WEIGHTS = { name: 10, description: 5, excerpt: 1 } as const;
+
+const STOP_WORDS = new Set([
+  'a', 'about', 'an', 'and', 'are', 'as', 'at', 'be', 'did', 'do', 'does', 'for', 'from',
+  'had', 'has', 'have', 'how', 'i', 'in', 'is', 'it', 'of', 'on', 'or', 'our', 'that',
+  'the', 'this', 'to', 'us', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'who',
+  'why', 'with', 'you',
+]);
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Text of the last messages up to the anchor, for the search index
+ */
+export function conversationExcerpt(messages: SessionMessage[]): string | undefined {
+  const text = messages
+    .slice(-EXCERPT_MESSAGES)
+    .flatMap((message) =>
+      Array.isArray(message.content)
+        ? message.content
+            .filter((part: any) => part?.type === 'text' && typeof part.text === 'string')
+            .map((part: any) => part.text as string)
+        : [String(message.content ?? '')]
+    )
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  if (!text) {
+    return undefined;
+  }
+  return text.length > EXCERPT_LENGTH ? `…${text.slice(-(EXCERPT_LENGTH - 1))}` : text;
+}
+
+/**
+ * Lowercase search words of a query, without common words (unless nothing
+ * else is left)
+ */
+export function queryTerms(query: string): string[] {
+  const words = [...new Set(query.toLowerCase().match(WORD) ?? [])];
+  const meaningful = words.filter((word) => !STOP_WORDS.has(word));
+  return meaningful.length > 0 ? meaningful : words;
+}
+
+/**
+ * FTS5 query matching any of the terms, each also as a word prefix
+ * ("decide" finds "decided")
+ */
+export function toFtsQuery(terms: string[]): string {
+  return terms.map((term) => `"${term}"*`).join(' OR ');
+}
+
+interface Token {
+  start: number;
+  end: number;
+  match: boolean;
+}
+
+function tokenize(text: string, terms: string[]): Token[] {
+  return [...text.matchAll(WORD)].map((m) => ({
+    start: m.index!,
+    end: m.index! + m[0].length,
+    match: terms.some((term) => m[0].toLowerCase().startsWith(term)),
+  }));
+}
+
+/**
+ * The run of `words` words with the most matches, matches highlighted
+ */
+export function highlight(text: string, terms: string[], words: number = SNIPPET_WORDS): string {
+  const tokens = tokenize(text, terms);
+  if (tokens.length === 0) {
+    return text;
+  }
+
+  let best = 0;
+  let bestCount = -1;
+  for (let i = 0; i < Math.max(1, tokens.length - words + 1); i++) {
+    const count = tokens.slice(i, i + words).filter((t) => t.match).length;
+    if (count > bestCount) {
+      best = i;
+      bestCount = count;
+    }
+  }
+
+  // Center the matches in the window
+  const matched = tokens
+    .map((t, i) => (t.match ? i : -1))
+    .filter((i) => i >= best && i < best + words);
+  if (matched.length > 0) {
+    const span = matched[matched.length - 1] - matched[0] + 1;
+    best = Math.max(0, Math.min(tokens.length - words, matched[0] - Math.floor((words - span) / 2)));
+  }
+
+  const window = tokens.slice(best, best + words);
+  const from = best === 0 ? 0 : window[0].start;
+  const to = best + words >= tokens.length ? text.length : window[window.length - 1].end;
+
+  let snippet = '';
+  let position = from;
+  for (const token of window.filter((t) => t.match)) {
+    snippet += text.slice(position, token.start) + HIGHLIGHT + text.slice(token.start, token.end) + HIGHLIGHT;
+    position = token.end;
+  }
+  snippet += text.slice(position, to);
+
+  return `${from > 0 ? '…' : ''}${snippet}${to < text.length ? '…' : ''}`;
+}
+
+/**
+ * Score a checkpoint against search terms (stores without FTS5)
+ *
+ * @returns null when no term matches
+ */
+export function matchCheckpoint(
+  checkpoint: Checkpoint,
+  terms: string[]
+): { score: number; snippet: string } | null {
+  let score = 0;
+  let snippetField: string | null = null;
+  let snippetMatches = 0;
+
+  for (const field of ['name', 'description', 'excerpt'] as const) {
+    const text = checkpoint[field];
+    if (!text) {
+      continue;
+    }
+    const matches = tokenize(text, terms).filter((t) => t.match).length;
+    score += matches * FIELD_WEIGHTS[field];
+    if (matches > snippetMatches) {
+      snippetField = text;
+      snippetMatches = matches;
+    }
+  }
+
+  return snippetField === null ? null : { score, snippet: highlight(snippetField, terms) };
+}
@@ -0,0 +1,127 @@
+/**
+ * fingerprint.ts - Integrity fingerprint of the conversation before a checkpoint
+ *
+ * A rolling hash runs over the messages up to the anchor: each step hashes the
+ * previous step, the message ID and the stable content of its parts. Every
+ * step is kept (shortened), so a later check can tell at which message the
+ * conversation started to differ, not only that it did.
+ */
+
+import { createHash } from 'crypto';
+import type { SessionMessage } from './restore.js';
+
+const FINGERPRINT_VERSION = '1';
+// Hex characters kept per step; 48 bits is plenty to spot an edited message
+const STEP_LENGTH = 12;
+
+export type PrefixCheck =
+  | { status: 'intact' }
+  /** position: 1-based index of the first message that differs */
+  | { status: 'diverged'; position: number }
+  | { status: 'truncated'; available: number; expected: number };
+
+/**
+ * Content of a part that does not change once written. Timing, token counts
+ * and tool output are left out; tool calls count by name and input.
+ */
+function stablePart(part: any): unknown {
+  if (!part || typeof part !== 'object') {
+    return part;
+  }
+  switch (part.type) {
+    case 'text':
+    case 'reasoning':
+      return [part.type, part.text];
+    case 'tool':
+      return [part.type, part.tool, part.callID, part.state?.input];
+    case 'file':
+      return [part.type, part.filename, part.url];
+    default:
+      return [part.type];
+  }
+}
+
+function messageDigest(message: SessionMessage, idOnly: boolean): string {
+  const content = idOnly
+    ? null
+    : Array.isArray(message.content)
+      ? message.content.map(stablePart)
+      : String(message.content ?? '');
+  return JSON.stringify([message.id, content]);
+}
+
+/**
+ * Rolling hash after each of the first `count` messages. The anchor (at
+ * `anchorIndex`) can still be streaming when the checkpoint is taken, so only
+ * its ID counts; regenerating a message gives it a new ID anyway.
+ */
+function steps(messages: SessionMessage[], count: number, anchorIndex: number): string[] {
+  const result: string[] = [];
+  let previous = '';
+  for (let i = 0; i < count; i++) {
+    previous = createHash('sha256')
+      .update(previous)
+      .update(messageDigest(messages[i], i === anchorIndex))
+      .digest('hex');
+    result.push(previous.slice(0, STEP_LENGTH));
+  }
+  return result;
+}
+
+/**
+ * Fingerprint the first `count` messages (default: all of them)
+ */
+export function fingerprintMessages(
+  messages: SessionMessage[],
+  count: number = messages.length
+): string {
+  return `${FINGERPRINT_VERSION}:${steps(messages, count, count - 1).join('')}`;
+}
+
+/**
+ * Compare a stored fingerprint with the current messages
+ *
+ * @returns undefined for fingerprints written by an unknown version
+ */
+export function verifyFingerprint(
+  fingerprint: string,
+  messages: SessionMessage[]
+): PrefixCheck | undefined {
+  const [version, data = ''] = fingerprint.split(':');
+  if (version !== FINGERPRINT_VERSION) {
+    return undefined;
+  }
+
+  const expected: string[] = [];
+  for (let i = 0; i < data.length; i += STEP_LENGTH) {
+    expected.push(data.slice(i, i + STEP_LENGTH));
+  }
+
+  const available = Math.min(messages.length, expected.length);
+  const actual = steps(messages, available, expected.length - 1);
+  for (let i = 0; i < available; i++) {
+    if (actual[i] !== expected[i]) {
+      return { status: 'diverged', position: i + 1 };
+    }
+  }
+
+  if (messages.length < expected.length) {
+    return { status: 'truncated', available: messages.length, expected: expected.length };
+  }
+  return { status: 'intact' };
+}
+
+/**
+ * One-line description of a prefix check
+ */
+export function describePrefixCheck(check: PrefixCheck): string {
+  switch (check.status) {
+    case 'intact':
+      return 'Conversation before the checkpoint is intact';
+    case 'diverged':
+      return `Conversation diverged at message ${check.position} (edited, reverted or regenerated since the checkpoint)`;
+    case 'truncated':
+      return `Conversation was truncated: ${check.available} of the ${check.expected} messages before the checkpoint remain`;
+  }
+}
+
@@ -0,0 +1,386 @@
+/**
+ * git.ts - Git working tree helpers for checkpoints
+ *
+ * Snapshots are plain commit objects built from a temporary index, so the
+ * user's index, working tree, branches and stash are never touched.
+ * Each snapshot is kept reachable by a private ref under refs/checkpoints/.
+ */
+
+import { execFileSync } from 'child_process';
+import { copyFileSync, existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { isAbsolute, join } from 'path';
+
+export const SNAPSHOT_REF_PREFIX = 'refs/checkpoints/';
+
+// Snapshot commits are private objects; use a fixed identity so they can be
+// created even when the user has no git identity configured.
+const SNAPSHOT_IDENTITY = {
+  GIT_AUTHOR_NAME: 'opencode-checkpoint',
+  GIT_AUTHOR_EMAIL: 'checkpoint@opencode.local',
+  GIT_COMMITTER_NAME: 'opencode-checkpoint',
+  GIT_COMMITTER_EMAIL: 'checkpoint@opencode.local',
+};
+
+// Well-known hash of the empty tree, used as the base before the first commit
+const EMPTY_TREE = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+export interface SnapshotOptions {
+  includeUntracked?: boolean;
+  message?: string;
+}
+
+export interface FileChange {
+  status: 'added' | 'modified' | 'deleted';
+  path: string;
+}
+
+/** Working tree state at the time a checkpoint was taken */
+export interface GitStatus {
+  /** Checked-out branch (null when HEAD is detached) */
+  branch: string | null;
+  /** Commits ahead of and behind the upstream (null without an upstream) */
+  ahead: number | null;
+  behind: number | null;
+  dirty: boolean;
+  staged: number;
+  modified: number;
+  untracked: number;
+}
+
+/**
+ * Short description of uncommitted changes, e.g. "3 modified, 1 untracked"
+ */
+export function summarizeStatus(status: GitStatus): string {
+  if (!status.dirty) {
+    return 'clean';
+  }
+  const counts = [
+    [status.modified, 'modified'],
+    [status.staged, 'staged'],
+    [status.untracked, 'untracked'],
+  ] as const;
+  return counts
+    .filter(([count]) => count > 0)
+    .map(([count, label]) => `${count} ${label}`)
+    .join(', ');
+}
+
+export class GitRepository {
+  constructor(private readonly cwd: string) {}
+
+  /**
+   * Run a git command in the repository and return its trimmed stdout.
+   *
+   * Commits and paths that come from stored or imported checkpoints follow
+   * `--end-of-options`, so a value starting with a dash is never read as an
+   * option.
+   */
+  private git(args: string[], env?: Record<string, string>): string {
+    return execFileSync('git', args, {
+      cwd: this.cwd,
+      encoding: 'utf8',
+      stdio: ['pipe', 'pipe', 'ignore'],
+      env: env ? { ...process.env, ...env } : undefined,
+    }).trim();
+  }
+
+  /**
+   * Whether the directory is inside a git work tree
+   */
+  isRepository(): boolean {
+    try {
+      return this.git(['rev-parse', '--is-inside-work-tree']) === 'true';
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Current HEAD commit (undefined outside a repository or before the first commit)
+   */
+  head(): string | undefined {
+    try {
+      return this.git(['rev-parse', '--verify', 'HEAD']);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Record the working tree as a snapshot commit on top of HEAD.
+   *
+   * Tracked and modified files are always included; untracked files are
+   * included unless disabled (ignored files never are).
+   *
+   * @returns The snapshot commit hash, or undefined when the working tree
+   *          matches HEAD and there is nothing beyond the commit to record
+   */
+  snapshot(options: SnapshotOptions = {}): string | undefined {
+    const includeUntracked = options.includeUntracked ?? true;
+    const head = this.head();
+
+    const indexPath = this.gitPath('index');
+    const tempIndex = `${indexPath}.checkpoint-${process.pid}-${Date.now()}`;
+
+    try {
+      // Start from a copy of the real index so unchanged files are not rehashed
+      if (existsSync(indexPath)) {
+        copyFileSync(indexPath, tempIndex);
+      }
+      const env = { GIT_INDEX_FILE: tempIndex };
+
+      this.git(['add', includeUntracked ? '--all' : '--update', '--', ':/'], env);
+      const tree = this.git(['write-tree'], env);
+
+      if (head && tree === this.git(['rev-parse', `${head}^{tree}`])) {
+        return undefined;
+      }
+
+      const commitArgs = ['commit-tree', tree, '-m', options.message || 'checkpoint snapshot'];
+      if (head) {
+        commitArgs.push('-p', head);
+      }
+      const snapshot = this.git(commitArgs, SNAPSHOT_IDENTITY);
+
+      this.git(['update-ref', this.snapshotRef(snapshot), snapshot]);
+      return snapshot;
+    } finally {
+      rmSync(tempIndex, { force: true });
+    }
+  }
+
+  /**
+   * Whether the working tree has uncommitted or untracked changes
+   */
+  isDirty(): boolean {
+    return this.git(['status', '--porcelain', '--untracked-files=all']) !== '';
+  }
+
+  /**
+   * Branch, upstream distance and counts of uncommitted changes.
+   *
+   * A file with both staged and unstaged changes counts as staged and modified;
+   * unmerged files count as modified.
+   */
+  status(): GitStatus {
+    const output = this.git(['status', '--porcelain=v2', '--branch', '--untracked-files=all']);
+    const status: GitStatus = {
+      branch: null,
+      ahead: null,
+      behind: null,
+      dirty: false,
+      staged: 0,
+      modified: 0,
+      untracked: 0,
+    };
+
+    for (const line of output.split('\n').filter(Boolean)) {
+      if (line.startsWith('# branch.head ')) {
+        const head = line.slice('# branch.head '.length);
+        status.branch = head === '(detached)' ? null : head;
+      } else if (line.startsWith('# branch.ab ')) {
+        const [ahead, behind] = line.slice('# branch.ab '.length).split(' ');
+        status.ahead = Math.abs(parseInt(ahead, 10));
+        status.behind = Math.abs(parseInt(behind, 10));
+      } else if (line.startsWith('? ')) {
+        status.untracked++;
+      } else if (line.startsWith('u ')) {
+        status.modified++;
+      } else if (line.startsWith('1 ') || line.startsWith('2 ')) {
+        const [index, worktree] = line.slice(2, 4);
+        if (index !== '.') status.staged++;
+        if (worktree !== '.') status.modified++;
+      }
+    }
+
+    status.dirty = status.staged + status.modified + status.untracked > 0;
+    return status;
+  }
+
+  /**
+   * Whether a commit exists in the object database
+   */
+  hasCommit(commit: string): boolean {
+    try {
+      this.git(['cat-file', '-e', `${commit}^{commit}`]);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Stash all changes, including untracked files
+   *
+   * @returns The stash commit hash
+   */
+  stash(message: string): string {
+    this.git(['stash', 'push', '--include-untracked', '-m', message]);
+    return this.git(['rev-parse', 'stash@{0}']);
+  }
+
+  /**
+   * Files that differ between HEAD and a target commit
+   */
+  changedFiles(target: string): FileChange[] {
+    const base = this.head() ?? EMPTY_TREE;
+    const output = this.git([
+      'diff', '--name-status', '--no-renames', '--end-of-options', base, target, '--',
+    ]);
+    if (!output) {
+      return [];
+    }
+
+    const statuses: Record<string, FileChange['status']> = {
+      A: 'added',
+      D: 'deleted',
+    };
+    return output.split('\n').map((line) => {
+      const [code, path] = line.split('\t');
+      return { status: statuses[code] ?? 'modified', path };
+    });
+  }
+
+  /**
+   * Diff between two commits: the `--stat` summary, followed by the full
+   * patch when requested
+   */
+  diff(from: string, to: string, options: { patch?: boolean } = {}): string {
+    const args = ['diff', '--stat'];
+    if (options.patch) {
+      args.push('--patch');
+    }
+    return this.git([...args, '--end-of-options', from, to, '--']);
+  }
+
+  /**
+   * Make the working tree match a commit without moving HEAD.
+   *
+   * The index is reset to HEAD afterwards, so the restored state shows up as
+   * uncommitted changes on top of the current branch, just as it was when a
+   * snapshot was taken. Expects a clean working tree.
+   */
+  restoreTree(target: string): void {
+    this.git(['read-tree', '-u', '--reset', '--end-of-options', target]);
+    if (this.head()) {
+      this.git(['reset', '-q']);
+    }
+  }
+
+  /**
+   * Top-level directory of the working tree
+   */
+  root(): string {
+    return this.git(['rev-parse', '--show-toplevel']);
+  }
+
+  /**
+   * Whether a local branch exists
+   */
+  hasBranch(name: string): boolean {
+    try {
+      this.git(['show-ref', '--verify', '--quiet', `refs/heads/${name}`]);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Create a branch at a commit and check it out. Expects a clean working tree.
+   */
+  checkoutNewBranch(name: string, start: string): void {
+    this.git(['checkout', '-q', '-b', name, start]);
+  }
+
+  /**
+   * Add a worktree on a new branch at a commit; the current working tree is
+   * left alone
+   */
+  addWorktree(path: string, branch: string, start: string): void {
+    this.git(['worktree', 'add', '-q', '-b', branch, '--end-of-options', path, start]);
+  }
+
+  /**
+   * Add a worktree with a detached HEAD at a commit (no branch is created)
+   */
+  addDetachedWorktree(path: string, commit: string): void {
+    this.git(['worktree', 'add', '-q', '--detach', '--end-of-options', path, commit]);
+  }
+
+  /**
+   * Remove a worktree, discarding any changes made in it
+   */
+  removeWorktree(path: string): void {
+    this.git(['worktree', 'remove', '--force', path]);
+  }
+
+  /**
+   * Pack snapshot refs into a git bundle.
+   *
+   * Commits reachable from remote-tracking branches are left out, so the
+   * bundle stays small when the receiver has the same remote.
+   */
+  createBundle(refs: string[]): Buffer {
+    const dir = mkdtempSync(join(tmpdir(), 'checkpoint-bundle-'));
+    try {
+      const file = join(dir, 'snapshots.bundle');
+      this.git(['bundle', 'create', '-q', file, ...refs, '--not', '--remotes']);
+      return readFileSync(file);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Fetch the snapshot refs of a git bundle into the repository
+   *
+   * @returns The refs the bundle contained
+   * @throws Error if the repository lacks commits the bundle depends on
+   */
+  fetchBundle(data: Buffer): string[] {
+    const dir = mkdtempSync(join(tmpdir(), 'checkpoint-bundle-'));
+    try {
+      const file = join(dir, 'snapshots.bundle');
+      writeFileSync(file, data);
+
+      try {
+        this.git(['bundle', 'verify', '-q', file]);
+      } catch {
+        throw new Error('Git bundle is invalid or needs commits this repository does not have');
+      }
+
+      this.git(['fetch', '-q', file, `${SNAPSHOT_REF_PREFIX}*:${SNAPSHOT_REF_PREFIX}*`]);
+      return this.git(['bundle', 'list-heads', file])
+        .split('\n')
+        .filter(Boolean)
+        .map((line) => line.split(' ')[1]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Private ref that keeps a snapshot commit reachable
+   */
+  snapshotRef(snapshot: string): string {
+    return `${SNAPSHOT_REF_PREFIX}${snapshot}`;
+  }
+
+  /**
+   * Drop the private ref of a snapshot, so git may garbage collect it once
+   * nothing else reaches it. Missing refs are ignored.
+   */
+  deleteSnapshotRef(snapshot: string): void {
+    this.git(['update-ref', '-d', this.snapshotRef(snapshot)]);
+  }
+
+  /**
+   * Resolve a path inside the git directory (handles worktrees)
+   */
+  private gitPath(name: string): string {
+    const path = this.git(['rev-parse', '--git-path', name]);
+    return isAbsolute(path) ? path : join(this.cwd, path);
+  }
+}
@@ -7,12 +7,101 @@
 
 import type { Plugin } from '@opencode-ai/plugin';
 import { tool } from '@opencode-ai/plugin';
-import { CheckpointDatabase } from './database.js';
-import { RestoreManager, type OpenCodeSessionClient } from './restore.js';
-import { execSync } from 'child_process';
+import {
+  CHECKPOINT_ACTIONS,
+  MirroredCheckpointStore,
+  normalizeTags,
+  openStore,
+  type Checkpoint,
+  type CheckpointEvent,
+  type CheckpointEventRecord,
+} from './store.js';
+import {
+  PRE_RESTORE_TRIGGER,
+  RestoreManager,
+  uncapturedChangesWarning,
+  type OpenCodeSessionClient,
+  type RestoreResult,
+  type SessionMessage,
+} from './restore.js';
+import { GitRepository, summarizeStatus, type GitStatus } from './git.js';
+import { AutoCheckpointer, type AutoTrigger } from './auto.js';
+import { loadConfig } from './config.js';
+import { parseDuration, planPrune } from './retention.js';
+import { conversationBetween, formatMessageSummary, summarizeMessage } from './diff.js';
+import { createBundle, importCheckpoints, parseBundle } from './bundle.js';
+import { bisectCandidates, bisectCheckpoints, bisectTarget, runTestAt } from './bisect.js';
+import { parseTimeBound, toSearchFilter } from './search.js';
+import { findRootSession, renderTree, rootSessions } from './tree.js';
+import { describePrefixCheck, fingerprintMessages } from './fingerprint.js';
+import { conversationExcerpt } from './find.js';
+import { parseMessageTarget } from './position.js';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+
+// Where in the conversation a checkpoint is taken
+interface ConversationPosition {
+  messageCount: number;
+  anchorMessageId?: string;
+  fingerprint?: string;
+  excerpt?: string;
+}
+
+// Who runs an operation, for the audit log; no agent for automatic operations
+interface Actor {
+  sessionId: string;
+  agent?: string;
+}
+
+// Markdown table of audit log entries for checkpoint_history
+function formatEventTable(events: CheckpointEvent[]): string {
+  let table = '| Time | Action | Checkpoint | Session | Agent | Result |\n|---|---|---|---|---|---|\n';
+
+  for (const event of events) {
+    const time = new Date(event.createdAt).toLocaleString();
+    const checkpoint = event.checkpointId === null
+      ? event.checkpointName ?? '-'
+      : `${event.checkpointId} ${event.checkpointName ?? ''}`.trim();
+    const result = !event.success
+      ? `error: ${event.error ?? 'unknown'}`
+      : event.forkSessionId
+        ? `forked ${event.forkSessionId}`
+        : 'ok';
+    table += `| ${time} | ${event.action} | ${checkpoint} | ${event.sessionId ?? '-'} | ${event.agent ?? '-'} | ${result} |\n`;
+  }
+
+  return table;
+}
+
+// Markdown table shared by checkpoint_list and checkpoint_search
+function formatCheckpointTable(checkpoints: Checkpoint[]): string {
+  // Only worth a column when the rows span several sessions
+  const showSession = new Set(checkpoints.map((cp) => cp.sessionId)).size > 1;
+
+  let table = showSession
+    ? '| ID | Session | Name | Messages | Created | Git | Tags |\n|---|---|---|---|---|---|---|\n'
+    : '| ID | Name | Messages | Created | Git | Tags |\n|---|---|---|---|---|---|\n';
+
+  for (const cp of checkpoints) {
+    const date = new Date(cp.createdAt).toLocaleString();
+    // * marks a checkpoint taken with uncommitted changes
+    const dirty = cp.gitStatus?.dirty ? '*' : '';
+    const git = cp.gitCommit ? `${cp.gitCommit.slice(0, 8)}${dirty}` : '-';
+    const flags = [cp.autoTrigger && 'auto', cp.pinned && 'pinned'].filter(Boolean);
+    const name = flags.length > 0 ? `${cp.name} (${flags.join(', ')})` : cp.name;
+    const tags = cp.tags.length > 0 ? cp.tags.join(', ') : '-';
+    const session = showSession ? ` ${cp.sessionId} |` : '';
+    table += `| ${cp.id} |${session} ${name} | ${cp.messageCount} | ${date} | ${git} | ${tags} |\n`;
+  }
+
+  return table;
+}
 
 const plugin: Plugin = async ({ client, directory }) => {
-  const db = new CheckpointDatabase();
+  const config = loadConfig(directory);
+  const db = await openStore(directory, config.store);
+  const trashGracePeriod = parseDuration(config.trash.gracePeriod);
+  const git = new GitRepository(directory);
 
   // Adapter: wrap the SDK client into the simpler interface RestoreManager expects
   const sessionClient: OpenCodeSessionClient = {
@@ -33,44 +122,302 @@ const plugin: Plugin = async ({ client, directory }) => {
       if (result.error || !result.data) {
         throw new Error(`Messages fetch failed: ${JSON.stringify(result.error)}`);
       }
-      return result.data.map((m) => ({ id: m.info.id, content: m.parts }));
+      return result.data.map((m) => ({
+        id: m.info.id,
+        content: m.parts,
+        role: m.info.role,
+        createdAt: m.info.time.created,
+      }));
     },
   };
 
-  const restoreManager = new RestoreManager(db, sessionClient);
+  const restoreManager = new RestoreManager(db, sessionClient, git, directory);
 
   // Helper: Get current git commit
-  const getCurrentGitCommit = (): string | undefined => {
+  const getCurrentGitCommit = (): string | undefined => git.head();
+
+  // Helper: Snapshot uncommitted changes (undefined when clean or not a repo)
+  const snapshotWorkingTree = (
+    name: string,
+    includeUntracked: boolean,
+  ): string | undefined => {
     try {
-      return execSync('git rev-parse HEAD', {
-        cwd: directory,
-        encoding: 'utf8',
-        stdio: ['pipe', 'pipe', 'ignore'],
-      }).trim();
+      if (!git.isRepository()) {
+        return undefined;
+      }
+      return git.snapshot({
+        includeUntracked,
+        message: `checkpoint: ${name}`,
+      });
     } catch {
       return undefined;
     }
   };
 
-  // Helper: Count messages in current session
-  const getMessageCount = async (sessionId: string): Promise<number> => {
+  // Helper: Branch and uncommitted changes (undefined when not a repo)
+  const getWorkingTreeStatus = (): GitStatus | undefined => {
+    try {
+      return git.isRepository() ? git.status() : undefined;
+    } catch {
+      return undefined;
+    }
+  };
+
+  // Helper: Count messages in current session, find the last one to anchor on, fingerprint
+  // them and keep an excerpt for checkpoint_find
+  const getConversationPosition = async (sessionId: string): Promise<ConversationPosition> => {
     try {
       const messages = await sessionClient.messages(sessionId);
-      return messages.length;
+      return {
+        messageCount: messages.length,
+        anchorMessageId: messages[messages.length - 1]?.id,
+        fingerprint: fingerprintMessages(messages),
+        excerpt: conversationExcerpt(messages),
+      };
+    } catch {
+      return { messageCount: 0 };
+    }
+  };
+
+  // Helper: Look up a checkpoint by ID or by name (most recent in the session, then the project)
+  const findCheckpoint = (ref: string, sessionId: string): Checkpoint | null => {
+    const id = parseInt(ref, 10);
+    return isNaN(id)
+      ? db.findCheckpointByName(sessionId, ref) ?? db.findProjectCheckpointByName(directory, ref)
+      : db.getCheckpoint(id);
+  };
+
+  // Helper: Checkpoints of other project directories are read-only here
+  const foreignProjectError = (checkpoint: Checkpoint): string | undefined =>
+    checkpoint.directory && checkpoint.directory !== directory
+      ? `Checkpoint ${checkpoint.id} belongs to a different project (${checkpoint.directory})`
+      : undefined;
+
+  // Helper: Checkpoints recorded in this project directory; the global store holds every project's
+  const projectCheckpoints = (sessionId?: string): Checkpoint[] =>
+    db.listAllCheckpoints(sessionId).filter((cp) => cp.directory === directory);
+
+  // Helper: Append to the audit log; a failing log never fails the operation itself
+  const logEvent = (actor: Actor, event: CheckpointEventRecord): void => {
+    try {
+      db.recordEvent({ sessionId: actor.sessionId, agent: actor.agent, directory, ...event });
     } catch {
-      return 0;
+      // The audit log is best effort
+    }
+  };
+
+  // Helper: Log the checkpoint a restore took of the caller's position and
+  // describe how to go back to it
+  const preRestoreNote = (result: RestoreResult, actor: Actor, mode?: string): string => {
+    const checkpoint = result.preRestoreCheckpointId
+      ? db.getCheckpoint(result.preRestoreCheckpointId)
+      : null;
+    if (!checkpoint) {
+      return '';
     }
+
+    logEvent(actor, {
+      action: 'create',
+      checkpointId: checkpoint.id,
+      checkpointName: checkpoint.name,
+      details: { autoTrigger: PRE_RESTORE_TRIGGER },
+    });
+
+    // Restored files are uncommitted changes, so undoing has to set them aside
+    const filesUndo = result.gitTarget && !result.gitBranch && !result.worktreePath
+      ? ` with mode "${mode}" and onDirty "stash"`
+      : '';
+    return `Pre-restore checkpoint: ${checkpoint.name} (ID: ${checkpoint.id})\n` +
+      `To undo, restore checkpoint ${checkpoint.id}${filesUndo}.\n`;
   };
 
+  // Helper: Pin or unpin a checkpoint of this project
+  const setPinned = (ref: string, actor: Actor, pinned: boolean): string => {
+    const checkpoint = findCheckpoint(ref, actor.sessionId);
+    if (!checkpoint) {
+      return `Checkpoint not found: ${ref}`;
+    }
+    const foreign = foreignProjectError(checkpoint);
+    if (foreign) {
+      return foreign;
+    }
+    if (checkpoint.pinned === pinned) {
+      return `Checkpoint ${checkpoint.id} (${checkpoint.name}) is already ${pinned ? 'pinned' : 'unpinned'}`;
+    }
+
+    db.updateCheckpoint(checkpoint.id, { pinned });
+    logEvent(actor, {
+      action: 'update',
+      checkpointId: checkpoint.id,
+      checkpointName: checkpoint.name,
+      details: { pinned },
+    });
+    return pinned
+      ? `Checkpoint ${checkpoint.id} (${checkpoint.name}) pinned: it is kept by checkpoint_delete, pruning and session cleanup`
+      : `Checkpoint ${checkpoint.id} (${checkpoint.name}) unpinned: it can be deleted and pruned again`;
+  };
+
+  // Helper: Record a checkpoint of the conversation and working tree
+  const captureCheckpoint = async (data: {
+    sessionId: string;
+    name: string;
+    description?: string;
+    includeUntracked?: boolean;
+    autoTrigger?: AutoTrigger;
+    pinned?: boolean;
+    tags?: string[];
+    position?: ConversationPosition;
+    agent?: string;
+  }) => {
+    const { messageCount, anchorMessageId, fingerprint, excerpt } =
+      data.position ?? (await getConversationPosition(data.sessionId));
+    const gitCommit = getCurrentGitCommit();
+    const gitStatus = getWorkingTreeStatus();
+    const gitSnapshot = snapshotWorkingTree(data.name, data.includeUntracked ?? true);
+
+    const checkpointId = db.createCheckpoint({
+      sessionId: data.sessionId,
+      name: data.name,
+      description: data.description,
+      messageCount,
+      anchorMessageId,
+      fingerprint,
+      excerpt,
+      gitCommit,
+      gitSnapshot,
+      gitStatus,
+      autoTrigger: data.autoTrigger,
+      pinned: data.pinned,
+      tags: data.tags,
+      directory,
+      metadata: {
+        directory,
+        timestamp: Date.now(),
+      },
+    });
+
+    logEvent({ sessionId: data.sessionId, agent: data.agent }, {
+      action: 'create',
+      checkpointId,
+      checkpointName: data.name,
+      details: data.autoTrigger ? { autoTrigger: data.autoTrigger } : {},
+    });
+
+    return { checkpointId, messageCount, gitCommit, gitSnapshot, gitStatus };
+  };
+
+  // Helper: Drop the refs of removed checkpoints' snapshots that no other
+  // checkpoint, trashed ones included, still records
+  const releaseSnapshots = (removed: Checkpoint[]): void => {
+    const snapshots = new Set(removed.flatMap((cp) => (cp.gitSnapshot ? [cp.gitSnapshot] : [])));
+    for (const cp of [...db.listAllCheckpoints(), ...db.listTrash()]) {
+      if (cp.gitSnapshot) {
+        snapshots.delete(cp.gitSnapshot);
+      }
+    }
+    for (const snapshot of snapshots) {
+      try {
+        git.deleteSnapshotRef(snapshot);
+      } catch {
+        // Not a repository (any more); nothing to release
+      }
+    }
+  };
+
+  // Helper: Permanently remove this project's checkpoints that outlived the trash grace period.
+  // Other projects' trash is left to their own plugin, which can release their snapshot refs.
+  const purgeTrash = (): number => {
+    const cutoff = Date.now() - trashGracePeriod;
+    const expired = db.listTrash({ directory }).filter((cp) => cp.deletedAt! < cutoff);
+    const purged = db.purgeTrash(cutoff, directory);
+    releaseSnapshots(expired);
+    return purged;
+  };
+
+  // Helper: Until when a trashed checkpoint can be undeleted
+  const purgeDate = (cp: Checkpoint): string =>
+    new Date((cp.deletedAt ?? Date.now()) + trashGracePeriod).toLocaleString();
+
+  // Helper: Apply the retention policy to one session (or all of them)
+  const pruneCheckpoints = (sessionId: string | undefined, dryRun: boolean, actor: Actor) => {
+    const plan = planPrune(projectCheckpoints(sessionId), config.retention);
+    const deleted = dryRun
+      ? 0
+      : db.deleteCheckpoints(plan.prune.map((p) => p.checkpoint.id));
+    if (!dryRun) {
+      for (const { checkpoint, reason } of plan.prune) {
+        logEvent(actor, {
+          action: 'prune',
+          checkpointId: checkpoint.id,
+          checkpointName: checkpoint.name,
+          details: { reason },
+        });
+      }
+      // Pruned checkpoints wait in the trash; their snapshots go with the purge
+      purgeTrash();
+    }
+    return { plan, deleted };
+  };
+
+  purgeTrash();
+
+  const autoCheckpointer = new AutoCheckpointer(
+    config.autoCheckpoint,
+    async ({ sessionId, trigger, name }) => {
+      const position = await getConversationPosition(sessionId);
+
+      // Same trigger at the same message (e.g. several edits in one reply): keep the first
+      const [latest] = db.listCheckpoints(sessionId, 1);
+      if (
+        latest &&
+        latest.autoTrigger === trigger &&
+        latest.anchorMessageId === position.anchorMessageId
+      ) {
+        return false;
+      }
+
+      await captureCheckpoint({ sessionId, name, autoTrigger: trigger, position });
+      if (config.retention.autoPrune) {
+        pruneCheckpoints(sessionId, false, { sessionId });
+      }
+      return true;
+    },
+  );
+
   return {
-    // Clean up checkpoints when session is deleted
     event: async ({ event }) => {
+      // Trash checkpoints when session is deleted (pinned ones are kept)
       if (event.type === 'session.deleted') {
         const sessionId = event.properties.info.id;
         if (sessionId) {
+          const trashed = db.listAllCheckpoints(sessionId).filter((cp) => !cp.pinned);
           db.deleteSessionCheckpoints(sessionId);
+          for (const checkpoint of trashed) {
+            logEvent({ sessionId }, {
+              action: 'cleanup',
+              checkpointId: checkpoint.id,
+              checkpointName: checkpoint.name,
+              details: { reason: 'session deleted' },
+            });
+          }
+          purgeTrash();
+          autoCheckpointer.forget(sessionId);
         }
       }
+
+      if (event.type === 'session.idle') {
+        await autoCheckpointer.sessionIdle(event.properties.sessionID);
+      }
+
+      if (event.type === 'message.updated') {
+        const message = event.properties.info;
+        await autoCheckpointer.messageSeen(message.sessionID, message.id);
+      }
+    },
+
+    // Checkpoint before file-mutating tools run
+    'tool.execute.before': async (input) => {
+      await autoCheckpointer.beforeTool(input.sessionID, input.tool);
     },
 
     tool: {
@@ -82,22 +429,30 @@ const plugin: Plugin = async ({ client, directory }) => {
             .string()
             .optional()
             .describe('Optional description'),
+          untracked: tool.schema
+            .boolean()
+            .optional()
+            .describe('Include untracked files in the working tree snapshot (default: true)'),
+          pinned: tool.schema
+            .boolean()
+            .optional()
+            .describe('Pin the checkpoint so it is never deleted, pruned or removed with its session'),
+          tags: tool.schema
+            .array(tool.schema.string())
+            .optional()
+            .describe('Tags for finding the checkpoint later with checkpoint_search'),
         },
         async execute(args, context) {
-          const messageCount = await getMessageCount(context.sessionID);
-          const gitCommit = getCurrentGitCommit();
-
-          const checkpointId = db.createCheckpoint({
-            sessionId: context.sessionID,
-            name: args.name,
-            description: args.description,
-            messageCount,
-            gitCommit,
-            metadata: {
-              directory,
-              timestamp: Date.now(),
-            },
-          });
+          const { checkpointId, messageCount, gitCommit, gitSnapshot, gitStatus } =
+            await captureCheckpoint({
+              sessionId: context.sessionID,
+              name: args.name,
+              description: args.description,
+              includeUntracked: args.untracked,
+              pinned: args.pinned,
+              tags: args.tags,
+              agent: context.agent,
+            });
 
           let response = `Checkpoint created: ${args.name}\n`;
           response += `  ID: ${checkpointId}\n`;
@@ -105,95 +460,1176 @@ const plugin: Plugin = async ({ client, directory }) => {
           if (gitCommit) {
             response += `  Git commit: ${gitCommit.slice(0, 8)}\n`;
           }
+          if (gitStatus) {
+            let branch = gitStatus.branch ?? 'detached HEAD';
+            if (gitStatus.ahead !== null) {
+              branch += ` (${gitStatus.ahead} ahead, ${gitStatus.behind} behind upstream)`;
+            }
+            response += `  Branch: ${branch}\n`;
+            response += `  Working tree: ${summarizeStatus(gitStatus)}\n`;
+          }
+          if (gitSnapshot) {
+            response += `  Working tree snapshot: ${git.snapshotRef(gitSnapshot)}\n`;
+          } else if (gitStatus?.dirty) {
+            response += '  No snapshot was taken; restoring files will only bring back the commit\n';
+          }
           if (args.description) {
             response += `  Description: ${args.description}\n`;
           }
+          if (args.pinned) {
+            response += `  Pinned: yes\n`;
+          }
+          const tags = normalizeTags(args.tags ?? []);
+          if (tags.length > 0) {
+            response += `  Tags: ${tags.join(', ')}\n`;
+          }
           return response;
         },
       }),
 
       checkpoint_list: tool({
-        description: 'List all checkpoints for the current session',
-        args: {},
-        async execute(_args, context) {
-          const checkpoints = db.listCheckpoints(context.sessionID);
+        description:
+          'List checkpoints for the current session, another session, or every session of this project',
+        args: {
+          all: tool.schema
+            .boolean()
+            .optional()
+            .describe('List checkpoints from every session of this project'),
+          session: tool.schema
+            .string()
+            .optional()
+            .describe('List checkpoints of this session ID instead of the current one'),
+        },
+        async execute(args, context) {
+          const checkpoints = args.all
+            ? db.searchCheckpoints({ directory })
+            : args.session
+              ? db.searchCheckpoints({ directory, sessionId: args.session })
+              : db.listCheckpoints(context.sessionID);
 
           if (checkpoints.length === 0) {
-            return 'No checkpoints found for this session.';
+            if (args.all) {
+              return 'No checkpoints found for this project.';
+            }
+            return args.session
+              ? `No checkpoints found for session ${args.session} in this project.`
+              : 'No checkpoints found for this session.';
           }
 
-          let response = `Checkpoints (${checkpoints.length}):\n\n`;
-          response += '| ID | Name | Messages | Created | Git |\n';
-          response += '|---|---|---|---|---|\n';
+          return `Checkpoints (${checkpoints.length}):\n\n${formatCheckpointTable(checkpoints)}`;
+        },
+      }),
 
-          for (const cp of checkpoints) {
-            const date = new Date(cp.createdAt).toLocaleString();
-            const git = cp.gitCommit ? cp.gitCommit.slice(0, 8) : '-';
-            response += `| ${cp.id} | ${cp.name} | ${cp.messageCount} | ${date} | ${git} |\n`;
+      checkpoint_search: tool({
+        description:
+          'Search checkpoints by tag, name, creation date, git commit and session',
+        args: {
+          tags: tool.schema
+            .array(tool.schema.string())
+            .optional()
+            .describe('Only checkpoints carrying all of these tags'),
+          name: tool.schema
+            .string()
+            .optional()
+            .describe('Case-insensitive substring of the checkpoint name'),
+          after: tool.schema
+            .string()
+            .optional()
+            .describe('Created at or after this date (e.g. 2024-05-01) or duration ago (e.g. 7d)'),
+          before: tool.schema
+            .string()
+            .optional()
+            .describe('Created at or before this date or duration ago'),
+          gitCommit: tool.schema
+            .string()
+            .optional()
+            .describe('Git commit hash prefix'),
+          session: tool.schema
+            .string()
+            .optional()
+            .describe('Session ID to search, or "all" for every session of this project (default: current session)'),
+        },
+        async execute(args, context) {
+          let filter;
+          try {
+            filter = toSearchFilter(args);
+          } catch (error) {
+            return `Error: ${error instanceof Error ? error.message : String(error)}`;
           }
 
-          return response;
+          const session = args.session ?? context.sessionID;
+          const checkpoints = db.searchCheckpoints({
+            ...filter,
+            directory,
+            sessionId: session === 'all' ? undefined : session,
+          });
+
+          if (checkpoints.length === 0) {
+            return 'No checkpoints match the search.';
+          }
+
+          return `Found ${checkpoints.length} checkpoints:\n\n${formatCheckpointTable(checkpoints)}`;
+        },
+      }),
+
+      checkpoint_find: tool({
+        description:
+          'Find checkpoints by what was discussed, e.g. "where did we decide on GraphQL". Searches names, descriptions and the conversation before each checkpoint; best matches first',
+        args: {
+          query: tool.schema
+            .string()
+            .describe('Words or a question describing the checkpoint'),
+          session: tool.schema
+            .string()
+            .optional()
+            .describe('Only search this session ID (default: every session of this project)'),
+        },
+        async execute(args) {
+          const matches = db.findCheckpoints({
+            text: args.query,
+            directory,
+            sessionId: args.session,
+          });
+
+          if (matches.length === 0) {
+            return `No checkpoints match "${args.query}".`;
+          }
+
+          let response = `Found ${matches.length} checkpoints for "${args.query}":\n`;
+          for (const { checkpoint: cp, snippet } of matches) {
+            const name = cp.autoTrigger ? `${cp.name} (auto)` : cp.name;
+            response += `\n[${cp.id}] ${name} — ${new Date(cp.createdAt).toLocaleString()}, session ${cp.sessionId}\n`;
+            response += `  ${snippet}\n`;
+          }
+          return response.trimEnd();
+        },
+      }),
+
+      checkpoint_tree: tool({
+        description:
+          'Show the branch structure of sessions and checkpoints: which sessions were forked from which checkpoint',
+        args: {
+          all: tool.schema
+            .boolean()
+            .optional()
+            .describe('Show every session, not only the tree the current session belongs to'),
+        },
+        async execute(args, context) {
+          const checkpoints = projectCheckpoints();
+          // Forks are made from a checkpoint, so their parent has (or had) one here
+          const ids = new Set(checkpoints.map((cp) => cp.id));
+          const sessions = new Set(checkpoints.map((cp) => cp.sessionId));
+          const lineage = db.listLineage().filter((link) =>
+            (link.checkpointId !== null && ids.has(link.checkpointId)) || sessions.has(link.parentSessionId)
+          );
+          const roots = args.all
+            ? rootSessions(checkpoints, lineage)
+            : [findRootSession(context.sessionID, lineage)];
+
+          const tree = renderTree(roots, checkpoints, lineage, context.sessionID);
+          // A lone session line means there is nothing below it
+          if (!tree.includes('\n')) {
+            return args.all
+              ? 'No checkpoints recorded yet.'
+              : 'No checkpoints or restored forks for this session yet.';
+          }
+          return tree;
         },
       }),
 
       checkpoint_restore: tool({
         description:
-          'Restore session to a checkpoint (creates a new forked session)',
+          'Restore session to a checkpoint of any session in this project (creates a new forked session, optionally resets files)',
         args: {
           checkpoint: tool.schema
             .string()
             .describe('Checkpoint ID or name'),
+          mode: tool.schema
+            .enum(['conversation', 'files', 'both'])
+            .optional()
+            .describe('What to restore: the conversation (default), the working tree files, or both'),
+          onDirty: tool.schema
+            .enum(['refuse', 'stash'])
+            .optional()
+            .describe('When restoring files over uncommitted changes: refuse (default) or stash them first'),
+          checkout: tool.schema
+            .enum(['branch', 'worktree'])
+            .optional()
+            .describe('Put the code on a new branch checkpoint/<name>-<id> (checked out here) or in a separate git worktree on that branch'),
+          worktreePath: tool.schema
+            .string()
+            .optional()
+            .describe('Directory for the worktree (default: next to the repository)'),
+          force: tool.schema
+            .boolean()
+            .optional()
+            .describe('Fork even if the conversation before the checkpoint was edited, regenerated or truncated'),
         },
         async execute(args, context) {
           let result;
           const checkpointId = parseInt(args.checkpoint, 10);
+          const options = {
+            mode: args.mode,
+            onDirty: args.onDirty,
+            checkout: args.checkout,
+            worktreePath: args.worktreePath,
+            force: args.force,
+          };
 
           if (!isNaN(checkpointId)) {
             result = await restoreManager.restore(
               context.sessionID,
               checkpointId,
+              options,
             );
           } else {
             result = await restoreManager.restoreByName(
               context.sessionID,
               args.checkpoint,
+              options,
             );
           }
 
+          const actor = { sessionId: context.sessionID, agent: context.agent };
+          const undo = preRestoreNote(result, actor, args.mode);
+          // A failed restore may name an ID that does not exist
+          const restored = result.checkpointId ? db.getCheckpoint(result.checkpointId) : null;
+          logEvent(actor, {
+            action: 'restore',
+            checkpointId: restored?.id ?? null,
+            checkpointName: restored?.name ?? args.checkpoint,
+            success: result.success,
+            error: result.error,
+            forkSessionId: result.newSessionId || undefined,
+            details: {
+              mode: args.mode ?? 'conversation',
+              ...(args.checkout && { checkout: args.checkout }),
+              ...(args.force && { force: true }),
+              ...(result.originSessionId && { originSessionId: result.originSessionId }),
+            },
+          });
+
+          if (!result.success) {
+            return `Restore failed: ${result.error}${undo && `\n${undo}`}`.trimEnd();
+          }
+
+          let response = '';
+          if (result.newSessionId) {
+            response += `Session restored to checkpoint: ${result.checkpointName}\n\n`;
+            if (result.originSessionId) {
+              response += `The checkpoint comes from session ${result.originSessionId}, which was forked.\n`;
+            }
+            if (result.integrity && result.integrity.status !== 'intact') {
+              response += `Forced: ${describePrefixCheck(result.integrity)}.\n`;
+            }
+            response += `A new session has been created with ${result.messageCount} messages.\n`;
+            response += `New session ID: ${result.newSessionId}\n\n`;
+          } else {
+            response += `Files restored to checkpoint: ${result.checkpointName}\n\n`;
+          }
+
+          if (result.worktreePath) {
+            response += `Worktree created at ${result.worktreePath} on branch ${result.gitBranch} (${result.gitTarget!.slice(0, 8)})\n`;
+            response += 'The current working tree is unchanged.\n\n';
+          } else if (result.gitTarget) {
+            const files = result.changedFiles ?? [];
+            if (result.gitBranch) {
+              response += `Switched to new branch ${result.gitBranch}\n`;
+            }
+            response += `Working tree restored to ${result.gitTarget.slice(0, 8)} (${files.length} files changed)\n`;
+            for (const file of files) {
+              response += `  ${file.status}: ${file.path}\n`;
+            }
+            if (result.stash) {
+              response += `Uncommitted changes were stashed as ${result.stash.slice(0, 8)} (git stash list)\n`;
+            }
+            response += '\n';
+          }
+
+          if (result.warning) {
+            response += `Warning: ${result.warning}\n\n`;
+          }
+
+          if (undo) {
+            response += `${undo}\n`;
+          }
+
+          if (result.newSessionId) {
+            response += `Switch to the new session to continue from the checkpoint.\n`;
+            response += `The current session remains unchanged.`;
+          }
+
+          return response.trimEnd();
+        },
+      }),
+
+      checkpoint_restore_at: tool({
+        description:
+          'Fork the current session at any message, even without a checkpoint there (optionally creating one retroactively). Restores the conversation only',
+        args: {
+          at: tool.schema
+            .string()
+            .describe('Message to fork at: position (37), messages ago (-3), message ID, date (2024-05-01T14:32) or duration ago (15m)'),
+          checkpoint: tool.schema
+            .string()
+            .optional()
+            .describe('Also create a checkpoint with this name at that message'),
+          description: tool.schema
+            .string()
+            .optional()
+            .describe('Description of the created checkpoint'),
+        },
+        async execute(args, context) {
+          let target;
+          try {
+            target = parseMessageTarget(args.at);
+          } catch (error) {
+            return `Error: ${error instanceof Error ? error.message : String(error)}`;
+          }
+          if (args.checkpoint !== undefined && !args.checkpoint.trim()) {
+            return 'Error: Checkpoint name cannot be empty.';
+          }
+
+          const result = await restoreManager.restoreAt(context.sessionID, target, {
+            checkpoint: args.checkpoint?.trim(),
+            description: args.description,
+          });
+
+          const actor = { sessionId: context.sessionID, agent: context.agent };
+          if (result.retroactive && result.checkpointId) {
+            logEvent(actor, {
+              action: 'create',
+              checkpointId: result.checkpointId,
+              checkpointName: result.checkpointName,
+              details: { retroactive: true, at: args.at },
+            });
+          }
+          const undo = preRestoreNote(result, actor);
+          logEvent(actor, {
+            action: 'restore',
+            checkpointId: result.checkpointId || null,
+            checkpointName: result.checkpointName,
+            success: result.success,
+            error: result.error,
+            forkSessionId: result.newSessionId || undefined,
+            details: { mode: 'conversation', at: args.at },
+          });
+
           if (!result.success) {
-            return `Restore failed: ${result.error}`;
+            const kept = result.retroactive && result.checkpointId
+              ? `\nCheckpoint ${result.checkpointId} (${result.checkpointName}) was created and kept.`
+              : '';
+            return `Restore failed: ${result.error}${kept}${undo && `\n${undo}`}`.trimEnd();
           }
 
-          let response = `Session restored to checkpoint: ${result.checkpointName}\n\n`;
+          let response = `Session forked at ${args.at} (message ${result.messageCount})\n\n`;
+          if (result.retroactive) {
+            response += `Checkpoint created retroactively: ${result.checkpointName} (ID: ${result.checkpointId})\n`;
+          }
           response += `A new session has been created with ${result.messageCount} messages.\n`;
           response += `New session ID: ${result.newSessionId}\n\n`;
-          response += `Switch to the new session to continue from the checkpoint.\n`;
+          if (undo) {
+            response += `${undo}\n`;
+          }
+          response += `Switch to the new session to continue from that message.\n`;
           response += `The current session remains unchanged.`;
+          return response;
+        },
+      }),
 
+      checkpoint_preview: tool({
+        description:
+          'Show what restoring a checkpoint would do (anchor message, dropped messages, code changes) without forking or touching files',
+        args: {
+          checkpoint: tool.schema
+            .string()
+            .describe('Checkpoint ID or name'),
+          mode: tool.schema
+            .enum(['conversation', 'files', 'both'])
+            .optional()
+            .describe('Restore mode to check: the conversation (default), the working tree files, or both'),
+          onDirty: tool.schema
+            .enum(['refuse', 'stash'])
+            .optional()
+            .describe('How the restore would treat uncommitted changes: refuse (default) or stash them'),
+          checkout: tool.schema
+            .enum(['branch', 'worktree'])
+            .optional()
+            .describe('Check the new branch or worktree the restore would create'),
+          worktreePath: tool.schema
+            .string()
+            .optional()
+            .describe('Directory for the worktree (default: next to the repository)'),
+          force: tool.schema
+            .boolean()
+            .optional()
+            .describe('Check a forced restore over a changed conversation'),
+        },
+        async execute(args, context) {
+          const checkpoint = findCheckpoint(args.checkpoint, context.sessionID);
+          if (!checkpoint) {
+            return `Checkpoint not found: ${args.checkpoint}`;
+          }
+
+          const preview = await restoreManager.preview(context.sessionID, checkpoint.id, {
+            mode: args.mode,
+            onDirty: args.onDirty,
+            checkout: args.checkout,
+            worktreePath: args.worktreePath,
+            force: args.force,
+          });
+
+          let response = `Restore preview: #${preview.checkpointId} ${preview.checkpointName} (${preview.mode})\n\n`;
+          response += preview.valid
+            ? 'Valid: yes\n'
+            : `Valid: no (${preview.reason})\n`;
+          if (preview.originSessionId) {
+            response += `Session: ${preview.originSessionId} would be forked (not the current session)\n`;
+          }
+
+          if (preview.integrity) {
+            response += `Integrity: ${describePrefixCheck(preview.integrity)}\n`;
+          }
+
+          if (preview.anchorMessage && preview.anchorPosition) {
+            response += `\nAnchor: message ${preview.anchorPosition} of ${preview.totalMessages}\n`;
+            response += `${formatMessageSummary(summarizeMessage(preview.anchorMessage, preview.anchorPosition))}\n`;
+            response += `Messages dropped: ${preview.messagesDropped}\n`;
+          }
+
+          const gitState = preview.git;
+          response += '\n';
+          if (!gitState) {
+            response += 'Code: not a git repository\n';
+          } else if (!gitState.target) {
+            response += 'Code: checkpoint has no recorded git state\n';
+          } else {
+            const kind = gitState.isSnapshot ? 'snapshot' : 'commit';
+            const head = gitState.head ? gitState.head.slice(0, 8) : 'none';
+            response += `Code: ${kind} ${gitState.target.slice(0, 8)} (current HEAD ${head})\n`;
+            if (!gitState.changedFiles) {
+              response += `  ${kind} is no longer available\n`;
+            } else if (gitState.changedFiles.length === 0) {
+              response += '  working tree already matches\n';
+            } else {
+              const changesHere = args.checkout === 'branch' ||
+                (preview.mode !== 'conversation' && args.checkout !== 'worktree');
+              const verb = changesHere ? 'would change' : 'differ';
+              response += `  ${gitState.changedFiles.length} files ${verb}:\n`;
+              for (const file of gitState.changedFiles) {
+                response += `    ${file.status}: ${file.path}\n`;
+              }
+            }
+            if (gitState.dirty) {
+              response += '  Working tree has uncommitted changes\n';
+            }
+            if (preview.mode === 'conversation' && !args.checkout) {
+              response += '  Files are left alone in conversation mode\n';
+            }
+          }
+
+          if (preview.warning) {
+            response += `Warning: ${preview.warning}\n`;
+          }
+          if (preview.worktreePath) {
+            response += `Would add worktree ${preview.worktreePath} on new branch ${preview.gitBranch}\n`;
+          } else if (preview.gitBranch) {
+            response += `Would check out new branch ${preview.gitBranch}\n`;
+          }
+
+          return response.trimEnd();
+        },
+      }),
+
+      checkpoint_diff: tool({
+        description:
+          'Compare two checkpoints: messages added in between and the git diff of the code',
+        args: {
+          from: tool.schema.string().describe('Earlier checkpoint ID or name'),
+          to: tool.schema.string().describe('Later checkpoint ID or name'),
+          patch: tool.schema
+            .boolean()
+            .optional()
+            .describe('Include the full code patch, not only the diff stat'),
+        },
+        async execute(args, context) {
+          const from = findCheckpoint(args.from, context.sessionID);
+          if (!from) {
+            return `Checkpoint not found: ${args.from}`;
+          }
+          const to = findCheckpoint(args.to, context.sessionID);
+          if (!to) {
+            return `Checkpoint not found: ${args.to}`;
+          }
+          const foreign = foreignProjectError(from) ?? foreignProjectError(to);
+          if (foreign) {
+            return foreign;
+          }
+
+          let response = `Diff: #${from.id} ${from.name} → #${to.id} ${to.name}\n\n`;
+
+          let conversation;
+          try {
+            const messages = await sessionClient.messages(from.sessionId);
+            conversation = conversationBetween(messages, from, to);
+          } catch (error) {
+            conversation = { error: error instanceof Error ? error.message : String(error) };
+          }
+
+          if ('error' in conversation) {
+            response += `Conversation: unavailable (${conversation.error})\n`;
+          } else {
+            response += `Conversation (${conversation.messages.length} messages`;
+            response += conversation.swapped ? ', checkpoints given newest first' : '';
+            response += '):\n';
+            for (const summary of conversation.messages) {
+              response += `${formatMessageSummary(summary)}\n`;
+            }
+          }
+
+          const fromTarget = from.gitSnapshot ?? from.gitCommit;
+          const toTarget = to.gitSnapshot ?? to.gitCommit;
+          response += '\n';
+          const missing = [fromTarget, toTarget].find((target) => target && !git.hasCommit(target));
+          if (!fromTarget || !toTarget) {
+            response += 'Code: unavailable (checkpoint has no recorded git state)';
+          } else if (missing) {
+            response += `Code: unavailable (git object ${missing.slice(0, 8)} is no longer available)`;
+          } else if (fromTarget === toTarget) {
+            response += `Code (${fromTarget.slice(0, 8)}): no changes`;
+          } else {
+            response += `Code (${fromTarget.slice(0, 8)} → ${toTarget.slice(0, 8)}):\n`;
+            try {
+              const diff = git.diff(fromTarget, toTarget, { patch: args.patch });
+              response += diff || 'no changes';
+            } catch (error) {
+              response += `unavailable (${error instanceof Error ? error.message : String(error)})`;
+            }
+          }
+
+          return response;
+        },
+      }),
+
+      checkpoint_bisect: tool({
+        description:
+          'Find the first checkpoint of a session where a shell test command fails, by binary search over the checkpoints\' code in temporary git worktrees',
+        args: {
+          command: tool.schema
+            .string()
+            .describe('Shell command run at each checkpoint\'s code; exit code 0 means good, anything else bad'),
+          session: tool.schema
+            .string()
+            .optional()
+            .describe('Session ID whose checkpoints to bisect (default: current session)'),
+          good: tool.schema
+            .string()
+            .optional()
+            .describe('Checkpoint ID or name known to pass (default: the oldest)'),
+          bad: tool.schema
+            .string()
+            .optional()
+            .describe('Checkpoint ID or name known to fail (default: the newest)'),
+          timeout: tool.schema
+            .string()
+            .optional()
+            .describe('Time limit per run, e.g. 2m (default: 5m); a run that times out counts as bad'),
+        },
+        async execute(args, context) {
+          if (!git.isRepository()) {
+            return 'Error: Bisecting requires a git repository.';
+          }
+
+          let timeout: number;
+          try {
+            timeout = parseDuration(args.timeout ?? '5m');
+          } catch (error) {
+            return `Error: ${error instanceof Error ? error.message : String(error)}`;
+          }
+
+          const sessionId = args.session ?? context.sessionID;
+          let candidates = bisectCandidates(
+            db.listAllCheckpoints(sessionId).filter((cp) => !foreignProjectError(cp))
+          );
+
+          // Narrow the range to the given good and bad checkpoints
+          const bounds: Partial<Record<'good' | 'bad', Checkpoint>> = {};
+          for (const key of ['good', 'bad'] as const) {
+            const ref = args[key];
+            if (!ref) {
+              continue;
+            }
+            const bound = findCheckpoint(ref, sessionId);
+            if (!bound || bound.sessionId !== sessionId) {
+              return `Checkpoint not found in session ${sessionId}: ${ref}`;
+            }
+            if (!bisectTarget(bound)) {
+              return `Checkpoint ${bound.id} (${bound.name}) has no recorded git commit or snapshot`;
+            }
+            bounds[key] = bound;
+          }
+          candidates = candidates.filter((cp) =>
+            (!bounds.good || cp.createdAt >= bounds.good.createdAt) &&
+            (!bounds.bad || cp.createdAt <= bounds.bad.createdAt)
+          );
+
+          // Snapshots of imported checkpoints may be missing from this repository
+          const missing = candidates.filter((cp) => !git.hasCommit(bisectTarget(cp)!));
+          candidates = candidates.filter((cp) => !missing.includes(cp));
+          if (candidates.length < 2) {
+            return `Bisecting needs at least two checkpoints with recorded code in session ${sessionId}; found ${candidates.length}.`;
+          }
+
+          let result;
+          try {
+            result = await bisectCheckpoints(candidates, (cp) =>
+              runTestAt(git, bisectTarget(cp)!, args.command, timeout)
+            );
+          } catch (error) {
+            return `Bisect failed: ${error instanceof Error ? error.message : String(error)}`;
+          }
+
+          let response = `Bisected ${candidates.length} checkpoints of session ${sessionId} with \`${args.command}\` (${result.steps.length} runs)\n\n`;
+          response += '| Checkpoint | Name | Code | Result |\n|---|---|---|---|\n';
+          for (const { checkpoint: cp, run } of result.steps) {
+            const outcome = run.passed
+              ? 'good'
+              : run.timedOut ? 'bad (timed out)' : `bad (exit ${run.exitCode ?? 'signal'})`;
+            response += `| ${cp.id} | ${cp.name} | ${bisectTarget(cp)!.slice(0, 8)} | ${outcome} |\n`;
+          }
+          if (missing.length > 0) {
+            response += `\nSkipped ${missing.length} checkpoints whose code is no longer in the repository: ${missing.map((cp) => cp.id).join(', ')}\n`;
+          }
+
+          if (result.status === 'passing') {
+            response += '\nThe command passes at the newest checkpoint; nothing to bisect.';
+            return response;
+          }
+
+          const firstBad = result.firstBad;
+          // Checkpoints with the same code share a run
+          const failedRun = result.steps.find(
+            (step) => bisectTarget(step.checkpoint) === bisectTarget(firstBad)
+          )!.run;
+
+          response += `\nFirst failing checkpoint: #${firstBad.id} ${firstBad.name} (${new Date(firstBad.createdAt).toLocaleString()}, code ${bisectTarget(firstBad)!.slice(0, 8)})\n`;
+          if (result.status === 'failing') {
+            response += 'The command already fails at the oldest checkpoint in the range.\n';
+          } else {
+            response += `Last passing checkpoint: #${result.lastGood.id} ${result.lastGood.name} (${new Date(result.lastGood.createdAt).toLocaleString()}, code ${bisectTarget(result.lastGood)!.slice(0, 8)})\n`;
+          }
+          const warning = uncapturedChangesWarning(firstBad);
+          if (warning) {
+            response += `Warning: ${warning}\n`;
+          }
+
+          if (failedRun.output) {
+            response += `\nOutput of the failing run:\n\`\`\`\n${failedRun.output}\n\`\`\`\n`;
+          }
+
+          if (result.status === 'found') {
+            let conversation;
+            try {
+              const messages = await sessionClient.messages(sessionId);
+              conversation = conversationBetween(messages, result.lastGood, firstBad);
+            } catch (error) {
+              conversation = { error: error instanceof Error ? error.message : String(error) };
+            }
+
+            if ('error' in conversation) {
+              response += `\nConversation: unavailable (${conversation.error})\n`;
+            } else {
+              response += `\nConversation between them (${conversation.messages.length} messages):\n`;
+              for (const summary of conversation.messages) {
+                response += `${formatMessageSummary(summary)}\n`;
+              }
+            }
+          }
+
+          return response.trimEnd();
+        },
+      }),
+
+      checkpoint_update: tool({
+        description:
+          'Edit a checkpoint: rename it, change its description, merge metadata, add or remove tags',
+        args: {
+          checkpoint: tool.schema.string().describe('Checkpoint ID or name'),
+          name: tool.schema.string().optional().describe('New name'),
+          description: tool.schema
+            .string()
+            .optional()
+            .describe('New description (empty string clears it)'),
+          metadata: tool.schema
+            .record(tool.schema.string(), tool.schema.any())
+            .optional()
+            .describe('Keys to merge into the checkpoint metadata'),
+          addTags: tool.schema
+            .array(tool.schema.string())
+            .optional()
+            .describe('Tags to add'),
+          removeTags: tool.schema
+            .array(tool.schema.string())
+            .optional()
+            .describe('Tags to remove'),
+        },
+        async execute(args, context) {
+          const checkpoint = findCheckpoint(args.checkpoint, context.sessionID);
+          if (!checkpoint) {
+            return `Checkpoint not found: ${args.checkpoint}`;
+          }
+          const foreign = foreignProjectError(checkpoint);
+          if (foreign) {
+            return foreign;
+          }
+          if (args.name !== undefined && !args.name.trim()) {
+            return 'Error: Checkpoint name cannot be empty.';
+          }
+          if (
+            args.name === undefined &&
+            args.description === undefined &&
+            args.metadata === undefined &&
+            !args.addTags?.length &&
+            !args.removeTags?.length
+          ) {
+            return 'Nothing to update: pass name, description, metadata, addTags or removeTags.';
+          }
+
+          const updated = db.updateCheckpoint(checkpoint.id, {
+            name: args.name?.trim(),
+            description: args.description,
+            metadata: args.metadata,
+            addTags: args.addTags,
+            removeTags: args.removeTags,
+          });
+          if (!updated) {
+            return `Checkpoint not found: ${args.checkpoint}`;
+          }
+          logEvent({ sessionId: context.sessionID, agent: context.agent }, {
+            action: 'update',
+            checkpointId: updated.id,
+            checkpointName: updated.name,
+            details: {
+              ...(updated.name !== checkpoint.name && { renamedFrom: checkpoint.name }),
+              ...(args.description !== undefined && { description: updated.description }),
+              ...(args.metadata && { metadataKeys: Object.keys(args.metadata) }),
+              ...(args.addTags?.length && { addTags: args.addTags }),
+              ...(args.removeTags?.length && { removeTags: args.removeTags }),
+            },
+          });
+
+          let response = `Checkpoint updated: ${updated.name}\n`;
+          response += `  ID: ${updated.id}\n`;
+          if (updated.name !== checkpoint.name) {
+            response += `  Renamed from: ${checkpoint.name}\n`;
+          }
+          if (args.description !== undefined) {
+            response += `  Description: ${updated.description ?? '(none)'}\n`;
+          }
+          if (args.metadata) {
+            response += `  Metadata keys set: ${Object.keys(args.metadata).join(', ')}\n`;
+          }
+          if (args.addTags?.length || args.removeTags?.length) {
+            response += `  Tags: ${updated.tags.length > 0 ? updated.tags.join(', ') : '(none)'}\n`;
+          }
+          response += `  Updated: ${new Date(updated.updatedAt).toLocaleString()}`;
           return response;
         },
       }),
 
+      checkpoint_pin: tool({
+        description:
+          'Pin a checkpoint so it cannot be deleted, pruned or removed with its session',
+        args: {
+          checkpoint: tool.schema.string().describe('Checkpoint ID or name'),
+        },
+        async execute(args, context) {
+          return setPinned(args.checkpoint, { sessionId: context.sessionID, agent: context.agent }, true);
+        },
+      }),
+
+      checkpoint_unpin: tool({
+        description:
+          'Unpin a checkpoint so it can be deleted and pruned again. Only do this when the user asks for it',
+        args: {
+          checkpoint: tool.schema.string().describe('Checkpoint ID or name'),
+        },
+        async execute(args, context) {
+          return setPinned(args.checkpoint, { sessionId: context.sessionID, agent: context.agent }, false);
+        },
+      }),
+
       checkpoint_delete: tool({
-        description: 'Delete a checkpoint',
+        description:
+          'Move a checkpoint to the trash, from where checkpoint_undelete can recover it (pinned checkpoints must be unpinned first)',
         args: {
           id: tool.schema.string().describe('Checkpoint ID'),
         },
-        async execute(args) {
+        async execute(args, context) {
           const checkpointId = parseInt(args.id, 10);
           if (isNaN(checkpointId)) {
             return 'Error: Valid checkpoint ID required.';
           }
 
+          const checkpoint = db.getCheckpoint(checkpointId);
+          const foreign = checkpoint && foreignProjectError(checkpoint);
+          if (foreign) {
+            return foreign;
+          }
+
+          const actor = { sessionId: context.sessionID, agent: context.agent };
+          if (checkpoint?.pinned) {
+            const error = `Checkpoint ${checkpointId} (${checkpoint.name}) is pinned and cannot be deleted. Unpin it with checkpoint_unpin first.`;
+            logEvent(actor, {
+              action: 'delete',
+              checkpointId,
+              checkpointName: checkpoint.name,
+              success: false,
+              error: 'pinned',
+            });
+            return error;
+          }
+
           const deleted = db.deleteCheckpoint(checkpointId);
           if (deleted) {
-            return `Checkpoint ${checkpointId} deleted`;
+            logEvent(actor, { action: 'delete', checkpointId, checkpointName: checkpoint?.name });
+            const until = new Date(Date.now() + trashGracePeriod).toLocaleString();
+            return `Checkpoint ${checkpointId} moved to the trash (undelete with checkpoint_undelete until ${until})`;
           } else {
             return `Checkpoint ${checkpointId} not found`;
           }
         },
       }),
 
+      checkpoint_trash: tool({
+        description:
+          'List deleted checkpoints of this project that can still be recovered with checkpoint_undelete',
+        args: {
+          session: tool.schema
+            .string()
+            .optional()
+            .describe('Only show checkpoints of this session ID (default: every session)'),
+        },
+        async execute(args) {
+          purgeTrash();
+          const trashed = db.listTrash({ directory, sessionId: args.session });
+          if (trashed.length === 0) {
+            return 'The trash is empty.';
+          }
+
+          let response = `Trash: ${trashed.length} checkpoints (purged ${config.trash.gracePeriod} after deletion)\n\n`;
+          response += '| ID | Session | Name | Created | Deleted | Purged after |\n';
+          response += '|---|---|---|---|---|---|\n';
+          for (const cp of trashed) {
+            const created = new Date(cp.createdAt).toLocaleString();
+            const deleted = new Date(cp.deletedAt!).toLocaleString();
+            response += `| ${cp.id} | ${cp.sessionId} | ${cp.name} | ${created} | ${deleted} | ${purgeDate(cp)} |\n`;
+          }
+          return response;
+        },
+      }),
+
+      checkpoint_undelete: tool({
+        description: 'Recover a deleted checkpoint from the trash',
+        args: {
+          id: tool.schema.string().describe('Checkpoint ID (see checkpoint_trash)'),
+        },
+        async execute(args, context) {
+          const checkpointId = parseInt(args.id, 10);
+          if (isNaN(checkpointId)) {
+            return 'Error: Valid checkpoint ID required.';
+          }
+
+          const trashed = db.listTrash({ directory }).find((cp) => cp.id === checkpointId);
+          if (!trashed) {
+            return `Checkpoint ${checkpointId} is not in the trash`;
+          }
+
+          const restored = db.undeleteCheckpoint(checkpointId);
+          if (!restored) {
+            return `Checkpoint ${checkpointId} is not in the trash`;
+          }
+          logEvent({ sessionId: context.sessionID, agent: context.agent }, {
+            action: 'undelete',
+            checkpointId: restored.id,
+            checkpointName: restored.name,
+          });
+          return `Checkpoint ${restored.id} (${restored.name}) recovered from the trash`;
+        },
+      }),
+
+      checkpoint_export: tool({
+        description:
+          'Export checkpoints to a portable JSON bundle (optionally with transcripts and git snapshots)',
+        args: {
+          path: tool.schema
+            .string()
+            .describe('Bundle file to write, relative to the project directory'),
+          checkpoints: tool.schema
+            .string()
+            .optional()
+            .describe('Comma-separated checkpoint IDs or names (default: all in the current session)'),
+          allSessions: tool.schema
+            .boolean()
+            .optional()
+            .describe('Export the checkpoints of every session of this project'),
+          transcript: tool.schema
+            .boolean()
+            .optional()
+            .describe('Include the message transcript up to each checkpoint'),
+          snapshots: tool.schema
+            .boolean()
+            .optional()
+            .describe('Include working tree snapshots as a git bundle (default: true)'),
+          overwrite: tool.schema
+            .boolean()
+            .optional()
+            .describe('Replace the file if it already exists (default: refuse)'),
+        },
+        async execute(args, context) {
+          const path = resolve(directory, args.path);
+          if (!args.overwrite && existsSync(path)) {
+            return `Error: ${path} already exists. Choose another path, or pass overwrite: true to replace it.`;
+          }
+
+          let checkpoints: Checkpoint[];
+          if (args.checkpoints) {
+            checkpoints = [];
+            for (const ref of args.checkpoints.split(',').map((r) => r.trim()).filter(Boolean)) {
+              const checkpoint = findCheckpoint(ref, context.sessionID);
+              if (!checkpoint) {
+                return `Checkpoint not found: ${ref}`;
+              }
+              checkpoints.push(checkpoint);
+            }
+          } else {
+            checkpoints = args.allSessions
+              ? projectCheckpoints()
+              : db.listAllCheckpoints(context.sessionID);
+          }
+
+          if (checkpoints.length === 0) {
+            return 'No checkpoints to export.';
+          }
+
+          const notes: string[] = [];
+
+          let transcripts: Record<string, SessionMessage[]> | undefined;
+          if (args.transcript) {
+            transcripts = {};
+            for (const sessionId of new Set(checkpoints.map((cp) => cp.sessionId))) {
+              try {
+                transcripts[sessionId] = await sessionClient.messages(sessionId);
+              } catch {
+                notes.push(`Transcript of session ${sessionId} unavailable`);
+              }
+            }
+          }
+
+          let gitBundle: { bundle: Buffer; refs: string[] } | undefined;
+          const snapshots = [...new Set(
+            checkpoints.map((cp) => cp.gitSnapshot).filter((s): s is string => !!s)
+          )];
+          if ((args.snapshots ?? true) && snapshots.length > 0) {
+            const refs = snapshots.filter((s) => git.hasCommit(s)).map((s) => git.snapshotRef(s));
+            if (refs.length < snapshots.length) {
+              notes.push(`${snapshots.length - refs.length} snapshot(s) missing from this repository`);
+            }
+            if (refs.length > 0) {
+              try {
+                gitBundle = { bundle: git.createBundle(refs), refs };
+              } catch (error) {
+                notes.push(`Git bundle failed: ${error instanceof Error ? error.message : String(error)}`);
+              }
+            }
+          }
+
+          const bundle = createBundle(checkpoints, { transcripts, git: gitBundle });
+          writeFileSync(path, JSON.stringify(bundle, null, 2), { flag: args.overwrite ? 'w' : 'wx' });
+
+          let response = `Exported ${checkpoints.length} checkpoints to ${path}\n`;
+          if (bundle.transcripts) {
+            const counts = Object.values(bundle.transcripts).map((m) => m.length);
+            response += `  Transcripts: ${counts.length} sessions, ${counts.reduce((a, b) => a + b, 0)} messages\n`;
+          }
+          if (bundle.git) {
+            response += `  Git snapshots: ${bundle.git.refs.length}\n`;
+          }
+          for (const note of notes) {
+            response += `  Note: ${note}\n`;
+          }
+          return response.trimEnd();
+        },
+      }),
+
+      checkpoint_import: tool({
+        description: 'Import checkpoints from a bundle written by checkpoint_export',
+        args: {
+          path: tool.schema
+            .string()
+            .describe('Bundle file to read, relative to the project directory'),
+        },
+        async execute(args, context) {
+          const path = resolve(directory, args.path);
+
+          let bundle;
+          try {
+            bundle = parseBundle(readFileSync(path, 'utf8'));
+          } catch (error) {
+            // BundleFormatError for invalid bundles, fs errors for unreadable files
+            return `Import failed: ${error instanceof Error ? error.message : String(error)}`;
+          }
+
+          // Fetch snapshots first; the rows are still useful without them
+          let gitNote: string | undefined;
+          if (bundle.git && bundle.git.refs.length > 0) {
+            if (!git.isRepository()) {
+              gitNote = 'Git snapshots skipped (not a git repository)';
+            } else {
+              try {
+                const refs = git.fetchBundle(Buffer.from(bundle.git.bundle, 'base64'));
+                gitNote = `Git snapshots: ${refs.length} fetched`;
+              } catch (error) {
+                gitNote = `Git snapshots not imported: ${error instanceof Error ? error.message : String(error)}`;
+              }
+            }
+          }
+
+          const { idMap, skipped, created } = importCheckpoints(db, bundle, directory);
+          for (const checkpointId of created) {
+            logEvent({ sessionId: context.sessionID, agent: context.agent }, {
+              action: 'create',
+              checkpointId,
+              checkpointName: db.getCheckpoint(checkpointId)?.name,
+              details: { importedFrom: path },
+            });
+          }
+
+          let response = `Imported ${bundle.checkpoints.length - skipped} checkpoints from ${path}\n\n`;
+          response += '| Old ID | New ID | Name | Session |\n';
+          response += '|---|---|---|---|\n';
+          for (const cp of bundle.checkpoints) {
+            response += `| ${cp.id} | ${idMap.get(cp.id)} | ${cp.name} | ${cp.sessionId} |\n`;
+          }
+
+          response += '\n';
+          if (skipped > 0) {
+            response += `Already present (skipped): ${skipped}\n`;
+          }
+          if (gitNote) {
+            response += `${gitNote}\n`;
+          }
+          if (bundle.transcripts) {
+            response += `Transcripts for ${Object.keys(bundle.transcripts).length} sessions are kept in the bundle for reference; they are not replayed into OpenCode.\n`;
+          }
+          return response.trimEnd();
+        },
+      }),
+
+      checkpoint_prune: tool({
+        description:
+          'Delete old checkpoints according to the retention policy (keep last N, max age, thinning). Pinned checkpoints are never pruned. Use dryRun first to preview.',
+        args: {
+          dryRun: tool.schema
+            .boolean()
+            .optional()
+            .describe('Only show what would be deleted'),
+          allSessions: tool.schema
+            .boolean()
+            .optional()
+            .describe('Prune every session instead of only the current one'),
+        },
+        async execute(args, context) {
+          const dryRun = args.dryRun ?? false;
+          const { plan, deleted } = pruneCheckpoints(
+            args.allSessions ? undefined : context.sessionID,
+            dryRun,
+            { sessionId: context.sessionID, agent: context.agent },
+          );
+          const total = plan.keep.length + plan.prune.length;
+
+          if (plan.prune.length === 0) {
+            return `Nothing to prune (${total} checkpoints kept).`;
+          }
+
+          let response = dryRun
+            ? `Prune (dry run): ${plan.prune.length} of ${total} checkpoints would be deleted\n\n`
+            : `Pruned ${deleted} of ${total} checkpoints (moved to the trash for ${config.trash.gracePeriod})\n\n`;
+          response += '| ID | Name | Created | Reason |\n';
+          response += '|---|---|---|---|\n';
+
+          for (const { checkpoint: cp, reason } of plan.prune) {
+            const date = new Date(cp.createdAt).toLocaleString();
+            response += `| ${cp.id} | ${cp.name} | ${date} | ${reason} |\n`;
+          }
+
+          const pinned = plan.keep.filter((cp) => cp.pinned).length;
+          if (pinned > 0) {
+            response += `\nPinned checkpoints kept: ${pinned}`;
+          }
+
+          return response;
+        },
+      }),
+
+      checkpoint_history: tool({
+        description:
+          'Show the audit log of checkpoint operations in this project: who created, restored, edited or deleted which checkpoint, and when',
+        args: {
+          checkpoint: tool.schema
+            .string()
+            .optional()
+            .describe('Only events of this checkpoint ID or name'),
+          session: tool.schema
+            .string()
+            .optional()
+            .describe('Only events run in this session ID or forking it'),
+          action: tool.schema
+            .enum(CHECKPOINT_ACTIONS)
+            .optional()
+            .describe('Only this kind of operation'),
+          since: tool.schema
+            .string()
+            .optional()
+            .describe('Only events at or after this date (e.g. 2024-05-01) or duration ago (e.g. 7d)'),
+        },
+        async execute(args, context) {
+          let since: number | undefined;
+          try {
+            since = args.since ? parseTimeBound(args.since) : undefined;
+          } catch (error) {
+            return `Error: ${error instanceof Error ? error.message : String(error)}`;
+          }
+
+          let checkpointId: number | undefined;
+          if (args.checkpoint) {
+            // Deleted checkpoints keep their history, so IDs are taken as they are
+            checkpointId = parseInt(args.checkpoint, 10);
+            if (isNaN(checkpointId)) {
+              const checkpoint = findCheckpoint(args.checkpoint, context.sessionID) ??
+                db.listTrash({ directory }).find((cp) => cp.name === args.checkpoint);
+              if (!checkpoint) {
+                return `Checkpoint not found: ${args.checkpoint}`;
+              }
+              checkpointId = checkpoint.id;
+            }
+          }
+
+          const events = db.listEvents({
+            directory,
+            checkpointId,
+            sessionId: args.session,
+            action: args.action,
+            since,
+          });
+          if (events.length === 0) {
+            return 'No checkpoint operations recorded.';
+          }
+
+          return `Last ${events.length} checkpoint operations (newest first):\n\n${formatEventTable(events)}`;
+        },
+      }),
+
       checkpoint_stats: tool({
         description: 'Show checkpoint statistics',
         args: {},
@@ -202,8 +1638,14 @@ const plugin: Plugin = async ({ client, directory }) => {
           let response = `Checkpoint Statistics:\n`;
           response += `  Total checkpoints: ${stats.totalCheckpoints}\n`;
           response += `  Total sessions: ${stats.totalSessions}\n`;
-          response += `  Database: ${db.getPath()}`;
-          return response;
+          response += `  Store: ${db.getPath()} (${db.backend})\n`;
+          if (db instanceof MirroredCheckpointStore) {
+            response += `  Mirrored to: ${db.getMirrorPath()}\n`;
+          }
+          if (db.getSchemaVersion) {
+            response += `  Schema version: ${db.getSchemaVersion()}\n`;
+          }
+          return response.trimEnd();
         },
       }),
     },
@@ -0,0 +1,208 @@
+/**
+ * jsonl.ts - JSON-lines checkpoint store
+ *
+ * Plain-file alternative to SQLite for machines where the native module does
+ * not install. The file starts with a header line, followed by one line per
+ * checkpoint, lineage record and audit log entry:
+ *
+ *   {"type":"store","format":"opencode-checkpoints","version":1,"nextId":3}
+ *   {"type":"checkpoint","id":1,"sessionId":"ses_1","name":"before-refactor",...}
+ *   {"type":"lineage","sessionId":"ses_2","parentSessionId":"ses_1",...}
+ *   {"type":"event","id":1,"action":"create","checkpointId":1,...}
+ *
+ * Every change rewrites the file through a temporary file and a rename, so a
+ * crash never leaves it half written. Changes hold `<file>.lock` from reading
+ * the file to the rename, and the file is read again whenever it changes on
+ * disk, so several OpenCode instances can share it without losing writes.
+ */
+
+import {
+  closeSync,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from 'fs';
+import { dirname } from 'path';
+import { MemoryCheckpointStore, emptyState, type StoreState } from './memory.js';
+import type { StoreBackend } from './config.js';
+import type { Checkpoint, CheckpointEvent, SessionLineage } from './store.js';
+
+export const JSONL_FORMAT = 'opencode-checkpoints';
+export const JSONL_VERSION = 1;
+
+/** How long a change waits for another process to release the lock */
+const LOCK_TIMEOUT = 5000;
+/** Age after which a lock counts as left behind by a crashed process */
+const STALE_LOCK = 30_000;
+
+export class JsonlCheckpointStore extends MemoryCheckpointStore {
+  override readonly backend: StoreBackend = 'jsonl';
+  // mtime and size of the file when last read or written
+  private version = '';
+
+  constructor(private readonly path: string) {
+    super();
+    mkdirSync(dirname(path), { recursive: true });
+    this.load();
+  }
+
+  protected override load(): void {
+    if (!existsSync(this.path)) {
+      this.version = '';
+      this.state = emptyState();
+      return;
+    }
+
+    const version = this.fileVersion();
+    if (version === this.version) {
+      return;
+    }
+
+    this.state = this.parse(readFileSync(this.path, 'utf-8'));
+    this.version = version;
+  }
+
+  protected override change<T>(apply: () => T): T {
+    return this.locked(() => super.change(apply));
+  }
+
+  protected override save(): void {
+    const lines: unknown[] = [
+      { type: 'store', format: JSONL_FORMAT, version: JSONL_VERSION, nextId: this.state.nextId },
+      ...[...this.state.checkpoints.values()].map((cp) => ({
+        type: 'checkpoint',
+        ...cp,
+        metadata: JSON.parse(cp.metadata),
+      })),
+      ...[...this.state.lineage.values()].map((link) => ({ type: 'lineage', ...link })),
+      ...this.state.events.map((event) => ({
+        type: 'event',
+        ...event,
+        details: JSON.parse(event.details),
+      })),
+    ];
+
+    const temp = `${this.path}.${process.pid}.tmp`;
+    writeFileSync(temp, lines.map((line) => JSON.stringify(line)).join('\n') + '\n');
+    renameSync(temp, this.path);
+    this.version = this.fileVersion();
+  }
+
+  override getPath(): string {
+    return this.path;
+  }
+
+  /**
+   * Run with the lock file held, waiting for other writers
+   *
+   * @throws Error if another process holds the lock past LOCK_TIMEOUT
+   */
+  private locked<T>(run: () => T): T {
+    const lock = `${this.path}.lock`;
+    const deadline = Date.now() + LOCK_TIMEOUT;
+    const pause = new Int32Array(new SharedArrayBuffer(4));
+
+    for (;;) {
+      try {
+        closeSync(openSync(lock, 'wx'));
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      let age: number;
+      try {
+        age = Date.now() - statSync(lock).mtimeMs;
+      } catch {
+        continue; // Released in the meantime
+      }
+      if (age > STALE_LOCK) {
+        rmSync(lock, { force: true });
+        continue;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`Checkpoint store ${this.path} is locked by another process (${lock})`);
+      }
+      Atomics.wait(pause, 0, 0, 10);
+    }
+
+    try {
+      return run();
+    } finally {
+      rmSync(lock, { force: true });
+    }
+  }
+
+  private fileVersion(): string {
+    const stats = statSync(this.path);
+    return `${stats.mtimeMs}:${stats.size}`;
+  }
+
+  /**
+   * @throws Error on a file from a newer version or a line that cannot be read
+   */
+  private parse(content: string): StoreState {
+    const state = emptyState();
+
+    content.split('\n').forEach((line, index) => {
+      if (!line.trim()) {
+        return;
+      }
+
+      let record: any;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        throw new Error(`Corrupt checkpoint store ${this.path}: line ${index + 1} is not valid JSON`);
+      }
+
+      switch (record?.type) {
+        case 'store':
+          if (record.format !== JSONL_FORMAT) {
+            throw new Error(`${this.path} is not a checkpoint store`);
+          }
+          if (record.version > JSONL_VERSION) {
+            throw new Error(
+              `Checkpoint store ${this.path} was written by a newer version (format ${record.version}); upgrade the plugin`
+            );
+          }
+          state.nextId = Math.max(state.nextId, record.nextId ?? 1);
+          break;
+        case 'checkpoint': {
+          const { type: _type, metadata, ...checkpoint } = record;
+          state.checkpoints.set(checkpoint.id, {
+            ...checkpoint,
+            // Fields added after the first release of the format
+            excerpt: checkpoint.excerpt ?? null,
+            deletedAt: checkpoint.deletedAt ?? null,
+            metadata: JSON.stringify(metadata ?? {}),
+          } as Checkpoint);
+          // Never hand out an ID that is already in the file
+          state.nextId = Math.max(state.nextId, checkpoint.id + 1);
+          break;
+        }
+        case 'lineage': {
+          const { type: _type, ...link } = record;
+          state.lineage.set(link.sessionId, link as SessionLineage);
+          break;
+        }
+        case 'event': {
+          const { type: _type, details, ...event } = record;
+          state.events.push({ ...event, details: JSON.stringify(details ?? {}) } as CheckpointEvent);
+          break;
+        }
+        default:
+          throw new Error(`Corrupt checkpoint store ${this.path}: unknown record on line ${index + 1}`);
+      }
+    });
+
+    return state;
+  }
+}
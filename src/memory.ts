@@ -0,0 +1,369 @@
+/**
+ * memory.ts - In-memory checkpoint store
+ *
+ * Keeps checkpoints and lineage in maps, with the same semantics as the
+ * SQLite store: IDs are never reused, tags are normalized and sorted, deleted
+ * checkpoints stay in the trash until purged, and purging clears them from
+ * lineage links. Callers get copies, so changing a returned checkpoint never
+ * changes the store.
+ *
+ * Subclasses persist the state by overriding `load()` and `save()`.
+ */
+
+import { matchCheckpoint, queryTerms } from './find.js';
+import {
+  normalizeTags,
+  type Checkpoint,
+  type CheckpointCreate,
+  type CheckpointEvent,
+  type CheckpointEventRecord,
+  type CheckpointMatch,
+  type CheckpointQuery,
+  type CheckpointSearch,
+  type CheckpointStore,
+  type CheckpointUpdate,
+  type EventFilter,
+  type LineageRecord,
+  type SessionLineage,
+  type TrashFilter,
+} from './store.js';
+import type { StoreBackend } from './config.js';
+
+export interface StoreState {
+  nextId: number;
+  checkpoints: Map<number, Checkpoint>;
+  lineage: Map<string, SessionLineage>;
+  /** Audit log, oldest first */
+  events: CheckpointEvent[];
+}
+
+export function emptyState(): StoreState {
+  return { nextId: 1, checkpoints: new Map(), lineage: new Map(), events: [] };
+}
+
+// created_at DESC, id DESC, like the SQLite queries
+function newestFirst(a: Checkpoint, b: Checkpoint): number {
+  return b.createdAt - a.createdAt || b.id - a.id;
+}
+
+function copy<T>(value: T): T {
+  return structuredClone(value);
+}
+
+export class MemoryCheckpointStore implements CheckpointStore {
+  readonly backend: StoreBackend = 'memory';
+  protected state: StoreState = emptyState();
+
+  /**
+   * Bring the state up to date before an operation (no-op in memory)
+   */
+  protected load(): void {}
+
+  /**
+   * Persist the state after a change (no-op in memory)
+   */
+  protected save(): void {}
+
+  /**
+   * Run a change against fresh state and persist it
+   */
+  protected change<T>(apply: () => T): T {
+    this.load();
+    const result = apply();
+    this.save();
+    return result;
+  }
+
+  /**
+   * Query the checkpoints that are not in the trash
+   */
+  private read<T>(query: (checkpoints: Checkpoint[]) => T): T {
+    this.load();
+    return copy(query([...this.state.checkpoints.values()].filter((cp) => cp.deletedAt === null)));
+  }
+
+  private live(id: number): Checkpoint | undefined {
+    const checkpoint = this.state.checkpoints.get(id);
+    return checkpoint?.deletedAt === null ? checkpoint : undefined;
+  }
+
+  createCheckpoint(data: CheckpointCreate): number {
+    return this.change(() => {
+      const id = this.state.nextId++;
+      const createdAt = data.createdAt ?? Date.now();
+      this.state.checkpoints.set(id, {
+        id,
+        sessionId: data.sessionId,
+        name: data.name,
+        description: data.description || null,
+        messageCount: data.messageCount,
+        anchorMessageId: data.anchorMessageId || null,
+        fingerprint: data.fingerprint || null,
+        excerpt: data.excerpt || null,
+        gitCommit: data.gitCommit || null,
+        gitSnapshot: data.gitSnapshot || null,
+        gitStatus: data.gitStatus ? copy(data.gitStatus) : null,
+        autoTrigger: data.autoTrigger || null,
+        pinned: !!data.pinned,
+        tags: normalizeTags(data.tags ?? []).sort(),
+        directory: data.directory || null,
+        createdAt,
+        updatedAt: createdAt,
+        deletedAt: null,
+        metadata: JSON.stringify(data.metadata || {}),
+      });
+      return id;
+    });
+  }
+
+  updateCheckpoint(id: number, changes: CheckpointUpdate): Checkpoint | null {
+    return this.change(() => {
+      const current = this.live(id);
+      if (!current) {
+        return null;
+      }
+
+      const removed = new Set(normalizeTags(changes.removeTags ?? []));
+      const tags = new Set([...current.tags, ...normalizeTags(changes.addTags ?? [])]);
+
+      const updated: Checkpoint = {
+        ...current,
+        name: changes.name ?? current.name,
+        description: changes.description === undefined
+          ? current.description
+          : changes.description || null,
+        pinned: changes.pinned ?? current.pinned,
+        metadata: changes.metadata
+          ? JSON.stringify({ ...JSON.parse(current.metadata), ...changes.metadata })
+          : current.metadata,
+        tags: [...tags].filter((tag) => !removed.has(tag)).sort(),
+        updatedAt: Date.now(),
+      };
+      this.state.checkpoints.set(id, updated);
+      return copy(updated);
+    });
+  }
+
+  getCheckpoint(id: number): Checkpoint | null {
+    return this.read(() => this.live(id) ?? null);
+  }
+
+  listCheckpoints(sessionId: string, limit = 50): Checkpoint[] {
+    return this.read((all) =>
+      all.filter((cp) => cp.sessionId === sessionId).sort(newestFirst).slice(0, limit)
+    );
+  }
+
+  listAllCheckpoints(sessionId?: string): Checkpoint[] {
+    return this.read((all) =>
+      all
+        .filter((cp) => sessionId === undefined || cp.sessionId === sessionId)
+        .sort((a, b) =>
+          a.sessionId < b.sessionId ? -1 : a.sessionId > b.sessionId ? 1 : newestFirst(a, b)
+        )
+    );
+  }
+
+  searchCheckpoints(filter: CheckpointSearch): Checkpoint[] {
+    const tags = normalizeTags(filter.tags ?? []);
+    const name = filter.name?.toLowerCase();
+    const commit = filter.gitCommit?.toLowerCase();
+
+    return this.read((all) =>
+      all
+        .filter((cp) =>
+          (!filter.sessionId || cp.sessionId === filter.sessionId) &&
+          (!filter.directory || cp.directory === filter.directory) &&
+          tags.every((tag) => cp.tags.includes(tag)) &&
+          (!name || cp.name.toLowerCase().includes(name)) &&
+          (filter.createdAfter === undefined || cp.createdAt >= filter.createdAfter) &&
+          (filter.createdBefore === undefined || cp.createdAt <= filter.createdBefore) &&
+          (!commit || (cp.gitCommit ?? '').startsWith(commit))
+        )
+        .sort(newestFirst)
+        .slice(0, filter.limit ?? 50)
+    );
+  }
+
+  findCheckpoints(query: CheckpointQuery): CheckpointMatch[] {
+    const terms = queryTerms(query.text);
+
+    return this.read((all) =>
+      all
+        .filter((cp) =>
+          (!query.sessionId || cp.sessionId === query.sessionId) &&
+          (!query.directory || cp.directory === query.directory)
+        )
+        .flatMap((checkpoint) => {
+          const match = matchCheckpoint(checkpoint, terms);
+          return match ? [{ checkpoint, ...match }] : [];
+        })
+        .sort((a, b) => b.score - a.score || newestFirst(a.checkpoint, b.checkpoint))
+        .slice(0, query.limit ?? 20)
+        .map(({ checkpoint, snippet }) => ({ checkpoint, snippet }))
+    );
+  }
+
+  findCheckpointByName(sessionId: string, name: string): Checkpoint | null {
+    return this.read((all) =>
+      all.filter((cp) => cp.sessionId === sessionId && cp.name === name).sort(newestFirst)[0] ?? null
+    );
+  }
+
+  findProjectCheckpointByName(directory: string, name: string): Checkpoint | null {
+    return this.read((all) =>
+      all.filter((cp) => cp.directory === directory && cp.name === name).sort(newestFirst)[0] ?? null
+    );
+  }
+
+  deleteCheckpoint(id: number): boolean {
+    return this.deleteCheckpoints([id]) > 0;
+  }
+
+  deleteCheckpoints(ids: number[]): number {
+    return this.change(() => {
+      const now = Date.now();
+      let deleted = 0;
+      for (const id of ids) {
+        const checkpoint = this.live(id);
+        if (checkpoint) {
+          checkpoint.deletedAt = now;
+          deleted++;
+        }
+      }
+      return deleted;
+    });
+  }
+
+  deleteSessionCheckpoints(sessionId: string): number {
+    const ids = this.read((all) =>
+      all.filter((cp) => cp.sessionId === sessionId && !cp.pinned).map((cp) => cp.id)
+    );
+    return this.deleteCheckpoints(ids);
+  }
+
+  listTrash(filter: TrashFilter = {}): Checkpoint[] {
+    this.load();
+    return copy(
+      [...this.state.checkpoints.values()]
+        .filter((cp) =>
+          cp.deletedAt !== null &&
+          (!filter.sessionId || cp.sessionId === filter.sessionId) &&
+          (!filter.directory || cp.directory === filter.directory)
+        )
+        .sort((a, b) => b.deletedAt! - a.deletedAt! || b.id - a.id)
+    );
+  }
+
+  undeleteCheckpoint(id: number): Checkpoint | null {
+    return this.change(() => {
+      const checkpoint = this.state.checkpoints.get(id);
+      if (!checkpoint || checkpoint.deletedAt === null) {
+        return null;
+      }
+      checkpoint.deletedAt = null;
+      return copy(checkpoint);
+    });
+  }
+
+  purgeTrash(deletedBefore: number, directory?: string): number {
+    return this.change(() => {
+      let purged = 0;
+      for (const [id, checkpoint] of this.state.checkpoints) {
+        if (
+          checkpoint.deletedAt !== null &&
+          checkpoint.deletedAt < deletedBefore &&
+          (!directory || checkpoint.directory === directory)
+        ) {
+          this.state.checkpoints.delete(id);
+          purged++;
+          for (const link of this.state.lineage.values()) {
+            if (link.checkpointId === id) {
+              link.checkpointId = null;
+            }
+          }
+        }
+      }
+      return purged;
+    });
+  }
+
+  recordLineage(data: LineageRecord): void {
+    this.change(() => {
+      this.state.lineage.set(data.sessionId, {
+        sessionId: data.sessionId,
+        parentSessionId: data.parentSessionId,
+        checkpointId: data.checkpointId,
+        checkpointName: data.checkpointName,
+        gitBranch: data.gitBranch ?? null,
+        worktreePath: data.worktreePath ?? null,
+        createdAt: Date.now(),
+      });
+    });
+  }
+
+  getLineage(sessionId: string): SessionLineage | null {
+    this.load();
+    return copy(this.state.lineage.get(sessionId) ?? null);
+  }
+
+  listLineage(): SessionLineage[] {
+    this.load();
+    return copy(
+      [...this.state.lineage.values()].sort((a, b) =>
+        a.createdAt - b.createdAt || (a.sessionId < b.sessionId ? -1 : 1)
+      )
+    );
+  }
+
+  recordEvent(event: CheckpointEventRecord): void {
+    this.change(() => {
+      const last = this.state.events[this.state.events.length - 1];
+      this.state.events.push({
+        id: (last?.id ?? 0) + 1,
+        action: event.action,
+        checkpointId: event.checkpointId ?? null,
+        checkpointName: event.checkpointName ?? null,
+        sessionId: event.sessionId ?? null,
+        agent: event.agent ?? null,
+        directory: event.directory ?? null,
+        success: event.success !== false,
+        error: event.error || null,
+        forkSessionId: event.forkSessionId || null,
+        details: JSON.stringify(event.details || {}),
+        createdAt: Date.now(),
+      });
+    });
+  }
+
+  listEvents(filter: EventFilter = {}): CheckpointEvent[] {
+    this.load();
+    return copy(
+      this.state.events
+        .filter((event) =>
+          (filter.checkpointId === undefined || event.checkpointId === filter.checkpointId) &&
+          (!filter.sessionId ||
+            event.sessionId === filter.sessionId ||
+            event.forkSessionId === filter.sessionId) &&
+          (!filter.directory || event.directory === filter.directory) &&
+          (!filter.action || event.action === filter.action) &&
+          (filter.since === undefined || event.createdAt >= filter.since)
+        )
+        .sort((a, b) => b.createdAt - a.createdAt || b.id - a.id)
+        .slice(0, filter.limit ?? 50)
+    );
+  }
+
+  getStats(): { totalCheckpoints: number; totalSessions: number } {
+    return this.read((all) => ({
+      totalCheckpoints: all.length,
+      totalSessions: new Set(all.map((cp) => cp.sessionId)).size,
+    }));
+  }
+
+  getPath(): string {
+    return ':memory:';
+  }
+
+  close(): void {}
+}
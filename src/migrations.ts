@@ -0,0 +1,325 @@
+/**
+ * migrations.ts - Versioned schema migrations for the checkpoint database
+ *
+ * The schema version lives in SQLite's `PRAGMA user_version`. Databases from
+ * v1.1.0 and earlier have version 0 and are brought up to date by replaying
+ * every migration; each step runs in its own transaction together with the
+ * version bump, so a failed step leaves the database at the previous version.
+ */
+
+import type Database from 'better-sqlite3';
+
+export interface Migration {
+  version: number;
+  description: string;
+  up(db: Database.Database): void;
+}
+
+export interface MigrationResult {
+  from: number;
+  to: number;
+  backupPath?: string;
+}
+
+/**
+ * Raised when a database was written by a newer plugin version
+ */
+export class SchemaVersionError extends Error {
+  constructor(
+    public readonly found: number,
+    public readonly supported: number
+  ) {
+    super(
+      `Checkpoint database has schema version ${found}, but this plugin only supports up to ${supported}. ` +
+      'Upgrade opencode-checkpoint-plugin to open it.'
+    );
+    this.name = 'SchemaVersionError';
+  }
+}
+
+function addColumnIfMissing(
+  db: Database.Database,
+  table: string,
+  column: string,
+  definition: string
+): void {
+  const columns = db.pragma(`table_info(${table})`) as Array<{ name: string }>;
+  if (!columns.some((c) => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+/**
+ * Ordered schema migrations. Append new steps; never edit released ones.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Checkpoints table (v1.1.0 schema)',
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS checkpoints (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          session_id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          description TEXT,
+          message_count INTEGER NOT NULL,
+          git_commit TEXT,
+          created_at INTEGER NOT NULL,
+          metadata TEXT NOT NULL DEFAULT '{}'
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_checkpoints_session
+          ON checkpoints(session_id, created_at DESC);
+
+        CREATE INDEX IF NOT EXISTS idx_checkpoints_name
+          ON checkpoints(session_id, name);
+      `);
+    },
+  },
+  {
+    version: 2,
+    description: 'Anchor message IDs and working tree snapshots',
+    up(db) {
+      // Development builds added these columns before versioning existed
+      addColumnIfMissing(db, 'checkpoints', 'anchor_message_id', 'TEXT');
+      addColumnIfMissing(db, 'checkpoints', 'git_snapshot', 'TEXT');
+    },
+  },
+  {
+    version: 3,
+    description: 'Mark automatic checkpoints with their trigger',
+    up(db) {
+      db.exec('ALTER TABLE checkpoints ADD COLUMN auto_trigger TEXT');
+    },
+  },
+  {
+    version: 4,
+    description: 'Pinned checkpoints are exempt from pruning',
+    up(db) {
+      db.exec('ALTER TABLE checkpoints ADD COLUMN pinned INTEGER NOT NULL DEFAULT 0');
+    },
+  },
+  {
+    version: 5,
+    description: 'Tags table, seeded from metadata.tags',
+    up(db) {
+      db.exec(`
+        CREATE TABLE checkpoint_tags (
+          checkpoint_id INTEGER NOT NULL REFERENCES checkpoints(id) ON DELETE CASCADE,
+          tag TEXT NOT NULL,
+          PRIMARY KEY (checkpoint_id, tag)
+        );
+
+        CREATE INDEX idx_checkpoint_tags_tag ON checkpoint_tags(tag);
+
+        INSERT OR IGNORE INTO checkpoint_tags (checkpoint_id, tag)
+        SELECT c.id, trim(t.value)
+        FROM checkpoints c,
+          json_each(CASE WHEN json_valid(c.metadata) THEN c.metadata ELSE '{}' END, '$.tags') t
+        WHERE t.type = 'text' AND trim(t.value) != '';
+      `);
+    },
+  },
+  {
+    version: 6,
+    description: 'Session lineage of restored forks',
+    up(db) {
+      db.exec(`
+        CREATE TABLE session_lineage (
+          session_id TEXT PRIMARY KEY,
+          parent_session_id TEXT NOT NULL,
+          checkpoint_id INTEGER REFERENCES checkpoints(id) ON DELETE SET NULL,
+          checkpoint_name TEXT NOT NULL,
+          created_at INTEGER NOT NULL
+        );
+
+        CREATE INDEX idx_session_lineage_parent ON session_lineage(parent_session_id);
+      `);
+    },
+  },
+  {
+    version: 7,
+    description: 'Project directory column, seeded from metadata.directory',
+    up(db) {
+      db.exec(`
+        ALTER TABLE checkpoints ADD COLUMN directory TEXT;
+
+        UPDATE checkpoints
+        SET directory = json_extract(metadata, '$.directory')
+        WHERE json_valid(metadata) AND json_type(metadata, '$.directory') = 'text';
+
+        CREATE INDEX idx_checkpoints_directory ON checkpoints(directory, created_at DESC);
+      `);
+    },
+  },
+  {
+    version: 8,
+    description: 'Track when checkpoints were last edited',
+    up(db) {
+      db.exec(`
+        ALTER TABLE checkpoints ADD COLUMN updated_at INTEGER;
+        UPDATE checkpoints SET updated_at = created_at;
+      `);
+    },
+  },
+  {
+    version: 9,
+    description: 'Record the git branch or worktree created for a forked session',
+    up(db) {
+      db.exec(`
+        ALTER TABLE session_lineage ADD COLUMN git_branch TEXT;
+        ALTER TABLE session_lineage ADD COLUMN worktree_path TEXT;
+      `);
+    },
+  },
+  {
+    version: 10,
+    description: 'Record branch and uncommitted changes at checkpoint time',
+    up(db) {
+      db.exec('ALTER TABLE checkpoints ADD COLUMN git_status TEXT');
+    },
+  },
+  {
+    version: 11,
+    description: 'Fingerprint the conversation before each checkpoint',
+    up(db) {
+      db.exec('ALTER TABLE checkpoints ADD COLUMN fingerprint TEXT');
+    },
+  },
+  {
+    version: 12,
+    description: 'Full-text index over names, descriptions and conversation excerpts',
+    up(db) {
+      db.exec(`
+        ALTER TABLE checkpoints ADD COLUMN excerpt TEXT;
+
+        CREATE VIRTUAL TABLE checkpoints_fts USING fts5(
+          name, description, excerpt,
+          content = 'checkpoints', content_rowid = 'id',
+          tokenize = 'unicode61 remove_diacritics 2'
+        );
+
+        CREATE TRIGGER checkpoints_fts_insert AFTER INSERT ON checkpoints BEGIN
+          INSERT INTO checkpoints_fts (rowid, name, description, excerpt)
+          VALUES (new.id, new.name, new.description, new.excerpt);
+        END;
+
+        CREATE TRIGGER checkpoints_fts_delete AFTER DELETE ON checkpoints BEGIN
+          INSERT INTO checkpoints_fts (checkpoints_fts, rowid, name, description, excerpt)
+          VALUES ('delete', old.id, old.name, old.description, old.excerpt);
+        END;
+
+        CREATE TRIGGER checkpoints_fts_update AFTER UPDATE OF name, description, excerpt ON checkpoints BEGIN
+          INSERT INTO checkpoints_fts (checkpoints_fts, rowid, name, description, excerpt)
+          VALUES ('delete', old.id, old.name, old.description, old.excerpt);
+          INSERT INTO checkpoints_fts (rowid, name, description, excerpt)
+          VALUES (new.id, new.name, new.description, new.excerpt);
+        END;
+
+        INSERT INTO checkpoints_fts (checkpoints_fts) VALUES ('rebuild');
+      `);
+    },
+  },
+  {
+    version: 13,
+    description: 'Soft-delete checkpoints into a trash',
+    up(db) {
+      db.exec(`
+        ALTER TABLE checkpoints ADD COLUMN deleted_at INTEGER;
+        CREATE INDEX idx_checkpoints_deleted ON checkpoints(deleted_at)
+          WHERE deleted_at IS NOT NULL;
+      `);
+    },
+  },
+  {
+    version: 14,
+    description: 'Append-only audit log of checkpoint operations',
+    up(db) {
+      db.exec(`
+        CREATE TABLE checkpoint_events (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          action TEXT NOT NULL,
+          checkpoint_id INTEGER,
+          checkpoint_name TEXT,
+          session_id TEXT,
+          agent TEXT,
+          directory TEXT,
+          success INTEGER NOT NULL DEFAULT 1,
+          error TEXT,
+          fork_session_id TEXT,
+          details TEXT NOT NULL DEFAULT '{}',
+          created_at INTEGER NOT NULL
+        );
+
+        CREATE INDEX idx_checkpoint_events_checkpoint ON checkpoint_events(checkpoint_id, created_at DESC);
+        CREATE INDEX idx_checkpoint_events_directory ON checkpoint_events(directory, created_at DESC);
+
+        CREATE TRIGGER checkpoint_events_no_update BEFORE UPDATE ON checkpoint_events BEGIN
+          SELECT RAISE(ABORT, 'checkpoint_events is append-only');
+        END;
+
+        CREATE TRIGGER checkpoint_events_no_delete BEFORE DELETE ON checkpoint_events BEGIN
+          SELECT RAISE(ABORT, 'checkpoint_events is append-only');
+        END;
+      `);
+    },
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Current schema version of a database
+ */
+export function getSchemaVersion(db: Database.Database): number {
+  return db.pragma('user_version', { simple: true }) as number;
+}
+
+/**
+ * Bring a database up to the latest schema version.
+ *
+ * An existing database is copied to `<dbPath>.v<version>.<timestamp>.bak`
+ * before the first migration runs.
+ *
+ * @throws SchemaVersionError if the database is newer than the migrations
+ */
+export function migrate(
+  db: Database.Database,
+  dbPath: string,
+  migrations: Migration[] = MIGRATIONS
+): MigrationResult {
+  const from = getSchemaVersion(db);
+  const latest = migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+
+  if (from > latest) {
+    throw new SchemaVersionError(from, latest);
+  }
+
+  const pending = migrations.filter((m) => m.version > from);
+  if (pending.length === 0) {
+    return { from, to: from };
+  }
+
+  let backupPath: string | undefined;
+  if (dbPath !== ':memory:' && hasTables(db)) {
+    backupPath = `${dbPath}.v${from}.${Date.now()}.bak`;
+    db.prepare('VACUUM INTO ?').run(backupPath);
+  }
+
+  for (const migration of pending) {
+    db.transaction(() => {
+      migration.up(db);
+      db.pragma(`user_version = ${migration.version}`);
+    })();
+  }
+
+  return { from, to: latest, backupPath };
+}
+
+function hasTables(db: Database.Database): boolean {
+  const row = db
+    .prepare("SELECT COUNT(*) as count FROM sqlite_master WHERE type = 'table'")
+    .get() as { count: number };
+  return row.count > 0;
+}
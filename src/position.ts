@@ -0,0 +1,123 @@
+/**
+ * position.ts - Message positions to fork at without a checkpoint
+ *
+ * `checkpoint_restore_at` takes a single string naming a message:
+ *
+ *   37                  the 37th message (1-based, as in checkpoint_preview)
+ *   -3                  three messages before the last one
+ *   msg_01HZX...        a message ID
+ *   2024-05-01T14:32    the last message created at or before that time
+ *   15m                 the last message created at least that long ago
+ */
+
+import { parseTimeBound } from './search.js';
+import type { AnchorResolution, SessionMessage } from './restore.js';
+
+export type MessageTarget =
+  | { index: number }
+  | { offset: number }
+  | { messageId: string }
+  | { time: number };
+
+/**
+ * Parse a message position; anything that is not a number, a date or a
+ * duration is taken as a message ID
+ *
+ * @throws Error on invalid positions and dates
+ */
+export function parseMessageTarget(value: string, now: number = Date.now()): MessageTarget {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    throw new Error('Message position required (index, -offset, message ID or time)');
+  }
+
+  if (/^-\d+$/.test(trimmed)) {
+    return { offset: -parseInt(trimmed, 10) };
+  }
+  if (/^\d+$/.test(trimmed)) {
+    const index = parseInt(trimmed, 10);
+    if (index < 1) {
+      throw new Error('Message positions start at 1');
+    }
+    return { index };
+  }
+  // Dates must start with the year, so IDs are never mistaken for dates
+  if (/^\d+\s*[mhdw]$/.test(trimmed) || /^\d{4}-\d{2}-\d{2}/.test(trimmed)) {
+    return { time: parseTimeBound(trimmed, now) };
+  }
+  return { messageId: trimmed };
+}
+
+/**
+ * Find the message a position refers to
+ */
+export function resolveMessageTarget(
+  target: MessageTarget,
+  messages: SessionMessage[]
+): AnchorResolution {
+  const at = (index: number): AnchorResolution => ({
+    messageId: messages[index].id,
+    messageCount: index + 1,
+  });
+
+  if ('index' in target) {
+    if (target.index > messages.length) {
+      return {
+        error: `Session has ${messages.length} messages, cannot fork at message ${target.index}`,
+        messageCount: messages.length,
+      };
+    }
+    return at(target.index - 1);
+  }
+
+  if ('offset' in target) {
+    if (target.offset >= messages.length) {
+      return {
+        error: `Session has ${messages.length} messages, cannot go back ${target.offset}`,
+        messageCount: messages.length,
+      };
+    }
+    return at(messages.length - 1 - target.offset);
+  }
+
+  if ('messageId' in target) {
+    const index = messages.findIndex((m) => m.id === target.messageId);
+    if (index === -1) {
+      return {
+        error: `Message ${target.messageId} is not in the session`,
+        messageCount: messages.length,
+      };
+    }
+    return at(index);
+  }
+
+  let last = -1;
+  messages.forEach((m, index) => {
+    if (m.createdAt !== undefined && m.createdAt <= target.time) {
+      last = index;
+    }
+  });
+  if (last === -1) {
+    return {
+      error: `No message was created at or before ${new Date(target.time).toLocaleString()}`,
+      messageCount: messages.length,
+    };
+  }
+  return at(last);
+}
+
+/**
+ * Short description of a position, for fork titles and lineage
+ */
+export function describeMessageTarget(target: MessageTarget): string {
+  if ('index' in target) {
+    return `message ${target.index}`;
+  }
+  if ('offset' in target) {
+    return target.offset === 1 ? '1 message ago' : `${target.offset} messages ago`;
+  }
+  if ('messageId' in target) {
+    return `message ${target.messageId}`;
+  }
+  return new Date(target.time).toLocaleString();
+}
@@ -5,7 +5,47 @@
  * This is cleaner than deleting messages (which OpenCode's API doesn't expose anyway).
  */
 
-import type { CheckpointDatabase, Checkpoint } from './database.js';
+import { existsSync } from 'fs';
+import { basename, dirname, join, resolve } from 'path';
+import type { CheckpointStore, Checkpoint } from './store.js';
+import { GitRepository, summarizeStatus, type FileChange } from './git.js';
+import { describePrefixCheck, fingerprintMessages, verifyFingerprint, type PrefixCheck } from './fingerprint.js';
+import { conversationExcerpt } from './find.js';
+import { describeMessageTarget, resolveMessageTarget, type MessageTarget } from './position.js';
+
+/**
+ * What a restore puts back:
+ * - conversation: fork the session at the checkpoint (default)
+ * - files: reset the working tree to the checkpoint's snapshot or commit
+ * - both: files first, then the conversation fork
+ */
+export type RestoreMode = 'conversation' | 'files' | 'both';
+
+/** `auto_trigger` of the checkpoint recorded before every restore */
+export const PRE_RESTORE_TRIGGER = 'restore';
+
+export interface RestoreOptions {
+  mode?: RestoreMode;
+  /** How to handle uncommitted changes when restoring files (default: refuse) */
+  onDirty?: 'refuse' | 'stash';
+  /**
+   * Put the checkpoint's code on a new branch instead of the current one:
+   * - branch: create `checkpoint/<name>-<id>` at the recorded commit and check it out
+   * - worktree: add a separate worktree on that branch; the current one is left alone
+   */
+  checkout?: 'branch' | 'worktree';
+  /** Where to add the worktree (default: next to the repository) */
+  worktreePath?: string;
+  /** Fork even if the conversation before the checkpoint has changed */
+  force?: boolean;
+}
+
+export interface RestoreAtOptions {
+  /** Create a checkpoint with this name at the position, then restore it */
+  checkpoint?: string;
+  /** Description of that checkpoint */
+  description?: string;
+}
 
 export interface RestoreResult {
   success: boolean;
@@ -14,6 +54,57 @@ export interface RestoreResult {
   newSessionId: string;
   messageCount: number;
   error?: string;
+  /** Commit or snapshot the working tree was reset to */
+  gitTarget?: string;
+  /** Files that changed when the working tree was restored */
+  changedFiles?: FileChange[];
+  /** Stash holding the uncommitted changes that were set aside */
+  stash?: string;
+  /** Session that was forked, when it is not the current one */
+  originSessionId?: string;
+  /** Branch created for the checkpoint's code */
+  gitBranch?: string;
+  /** Worktree created for the checkpoint's code */
+  worktreePath?: string;
+  /** Set when the checkpoint's code cannot be fully restored */
+  warning?: string;
+  /** Conversation before the checkpoint compared with its fingerprint */
+  integrity?: PrefixCheck;
+  /** Set when restoreAt created the checkpoint at the message position */
+  retroactive?: boolean;
+  /** Checkpoint of the caller's session (and working tree) before the restore; restoring it undoes the restore */
+  preRestoreCheckpointId?: number;
+}
+
+export interface RestorePreview {
+  valid: boolean;
+  reason?: string;
+  checkpointId: number;
+  checkpointName: string;
+  mode: RestoreMode;
+  /** Session that would be forked, when it is not the current one */
+  originSessionId?: string;
+  /** Messages in the session the fork would be made of */
+  totalMessages?: number;
+  /** Message the fork would end with, and its 1-based position */
+  anchorMessage?: SessionMessage;
+  anchorPosition?: number;
+  /** Messages after the anchor that the fork leaves out */
+  messagesDropped?: number;
+  /** Recorded git state against the current working tree */
+  git?: {
+    target?: string;
+    isSnapshot: boolean;
+    head?: string;
+    dirty: boolean;
+    /** Files a file restore would change (undefined when the target is gone) */
+    changedFiles?: FileChange[];
+  };
+  /** Branch and worktree the restore would create */
+  gitBranch?: string;
+  worktreePath?: string;
+  warning?: string;
+  integrity?: PrefixCheck;
 }
 
 export interface SessionForkOptions {
@@ -22,104 +113,224 @@ export interface SessionForkOptions {
   title?: string;
 }
 
+export interface SessionMessage {
+  id: string;
+  content: any; // message parts
+  role?: string;
+  createdAt?: number;
+}
+
 /**
  * Interface for OpenCode's session client
  * (This matches OpenCode's actual API from their SDK)
  */
 export interface OpenCodeSessionClient {
   fork(options: SessionForkOptions): Promise<{ id: string; title: string }>;
-  messages(sessionId: string): Promise<Array<{ id: string; content: any }>>;
+  messages(sessionId: string): Promise<SessionMessage[]>;
 }
 
+export type AnchorResolution =
+  | { messageId: string; messageCount: number }
+  | { error: string; messageCount: number };
+
+/**
+ * Find the message a checkpoint forks at.
+ *
+ * Checkpoints anchor on a message ID, which survives compaction, reverts and
+ * edits that shift positions. Rows created before anchors were recorded fall
+ * back to the message count.
+ */
+export function resolveAnchor(
+  checkpoint: Checkpoint,
+  messages: Array<{ id: string }>
+): AnchorResolution {
+  if (checkpoint.anchorMessageId) {
+    const index = messages.findIndex((m) => m.id === checkpoint.anchorMessageId);
+    if (index === -1) {
+      return {
+        error: `Anchor message ${checkpoint.anchorMessageId} no longer exists in the session (reverted or compacted?)`,
+        messageCount: messages.length
+      };
+    }
+    return { messageId: checkpoint.anchorMessageId, messageCount: index + 1 };
+  }
+
+  if (messages.length < checkpoint.messageCount) {
+    return {
+      error: `Current session has ${messages.length} messages, checkpoint expects ${checkpoint.messageCount}`,
+      messageCount: messages.length
+    };
+  }
+
+  const targetMessage = messages[checkpoint.messageCount - 1];
+  if (!targetMessage) {
+    return {
+      error: `Could not find message at position ${checkpoint.messageCount}`,
+      messageCount: 0
+    };
+  }
+  return { messageId: targetMessage.id, messageCount: checkpoint.messageCount };
+}
+
+/**
+ * Branch a restore with `checkout` creates: `checkpoint/<name>-<id>`, with the
+ * name reduced to lowercase letters, digits and dashes
+ */
+export function checkpointBranchName(checkpoint: Pick<Checkpoint, 'id' | 'name'>): string {
+  return `checkpoint/${branchSuffix(checkpoint)}`;
+}
+
+function branchSuffix(checkpoint: Pick<Checkpoint, 'id' | 'name'>): string {
+  const slug = checkpoint.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return `${slug || 'checkpoint'}-${checkpoint.id}`;
+}
+
+/**
+ * Warning for checkpoints taken with uncommitted changes that have no snapshot:
+ * their code can only go back to the recorded commit
+ */
+export function uncapturedChangesWarning(checkpoint: Checkpoint): string | undefined {
+  if (!checkpoint.gitStatus?.dirty || checkpoint.gitSnapshot) {
+    return undefined;
+  }
+  const commit = checkpoint.gitCommit ? ` ${checkpoint.gitCommit.slice(0, 8)}` : '';
+  return `Checkpoint was taken with uncommitted changes (${summarizeStatus(checkpoint.gitStatus)}) ` +
+    `but no snapshot; files can only be restored to commit${commit} without them`;
+}
+
+type FilePlan = {
+  /** Commit or snapshot the files end up matching */
+  target: string;
+  stash: boolean;
+  /** Commit the new branch starts at */
+  start?: string;
+  branch?: string;
+  worktreePath?: string;
+};
+
+type RestoredFiles = Pick<
+  RestoreResult,
+  'gitTarget' | 'changedFiles' | 'stash' | 'gitBranch' | 'worktreePath'
+>;
+
 export class RestoreManager {
   constructor(
-    private db: CheckpointDatabase,
-    private sessionClient: OpenCodeSessionClient
+    private db: CheckpointStore,
+    private sessionClient: OpenCodeSessionClient,
+    private git?: GitRepository,
+    private directory?: string
   ) {}
 
   /**
    * Restore session to a checkpoint by forking
+   *
+   * Checkpoints from other sessions of the same project are restored into a
+   * fork of the session they were created in.
    * 
    * @param sessionId - Current session ID
    * @param checkpointId - Checkpoint to restore to
+   * @param options - Restore mode and handling of uncommitted changes
    * @returns RestoreResult with new forked session
    */
-  async restore(sessionId: string, checkpointId: number): Promise<RestoreResult> {
+  async restore(
+    sessionId: string,
+    checkpointId: number,
+    options: RestoreOptions = {}
+  ): Promise<RestoreResult> {
+    const mode = options.mode ?? 'conversation';
+    const restoreConversation = mode !== 'files';
+    const restoreFiles = mode !== 'conversation' || !!options.checkout;
+
     // 1. Get checkpoint details
     const checkpoint = this.db.getCheckpoint(checkpointId);
     if (!checkpoint) {
-      return {
-        success: false,
-        checkpointId,
-        checkpointName: 'unknown',
-        newSessionId: '',
-        messageCount: 0,
-        error: `Checkpoint ${checkpointId} not found`
-      };
+      return this.failure(checkpointId, 'unknown', `Checkpoint ${checkpointId} not found`);
     }
 
-    if (checkpoint.sessionId !== sessionId) {
-      return {
-        success: false,
-        checkpointId,
-        checkpointName: checkpoint.name,
-        newSessionId: '',
-        messageCount: 0,
-        error: `Checkpoint belongs to different session (${checkpoint.sessionId})`
-      };
+    const notOwned = this.checkOwnership(sessionId, checkpoint);
+    if (notOwned) {
+      return this.failure(checkpointId, checkpoint.name, notOwned);
     }
+    const originSessionId = checkpoint.sessionId;
+    let preRestoreCheckpointId: number | undefined;
 
     try {
-      // 2. Get messages to find the message ID at checkpoint
-      const messages = await this.sessionClient.messages(sessionId);
-      
-      if (messages.length < checkpoint.messageCount) {
-        return {
-          success: false,
-          checkpointId,
-          checkpointName: checkpoint.name,
-          newSessionId: '',
-          messageCount: messages.length,
-          error: `Current session has ${messages.length} messages, checkpoint expects ${checkpoint.messageCount}`
-        };
+      // 2. Find the anchor message and check the files (before touching anything)
+      let messages: SessionMessage[] | undefined;
+      let anchor: { messageId: string; messageCount: number } | undefined;
+      let integrity: PrefixCheck | undefined;
+      if (restoreConversation) {
+        messages = await this.sessionClient.messages(originSessionId);
+        const planned = this.planConversation(checkpoint, messages, options);
+        if ('error' in planned) {
+          return this.failure(checkpointId, checkpoint.name, planned.error, planned.messageCount);
+        }
+        ({ anchor, integrity } = planned);
       }
 
-      // 3. Get the message ID at checkpoint position
-      const targetMessage = messages[checkpoint.messageCount - 1];
-      if (!targetMessage) {
+      let filePlan: FilePlan | undefined;
+      if (restoreFiles) {
+        const planned = this.planFiles(checkpoint, options);
+        if ('error' in planned) {
+          return this.failure(checkpointId, checkpoint.name, planned.error);
+        }
+        filePlan = planned;
+      }
+
+      // 3. Record where the caller is, so the restore can be undone
+      preRestoreCheckpointId = await this.recordPreRestore(
+        sessionId,
+        checkpoint.name,
+        !!filePlan && !filePlan.worktreePath,
+        originSessionId === sessionId ? messages : undefined
+      );
+
+      // 4. Put the working tree back
+      const files: RestoredFiles = filePlan ? this.restoreFiles(checkpoint, filePlan) : {};
+
+      // Files-only restore: nothing to fork
+      if (!anchor) {
         return {
-          success: false,
+          success: true,
           checkpointId,
           checkpointName: checkpoint.name,
           newSessionId: '',
-          messageCount: 0,
-          error: `Could not find message at position ${checkpoint.messageCount}`
+          messageCount: checkpoint.messageCount,
+          warning: uncapturedChangesWarning(checkpoint),
+          preRestoreCheckpointId,
+          ...files
         };
       }
 
-      // 4. Fork session up to that message
-      const forked = await this.sessionClient.fork({
-        sessionId,
-        messageId: targetMessage.id,
-        title: `Restored: ${checkpoint.name}`
-      });
+      // 5. Fork session up to that message
+      const newSessionId = await this.fork(
+        originSessionId,
+        anchor.messageId,
+        { id: checkpointId, name: checkpoint.name },
+        files
+      );
 
       return {
         success: true,
         checkpointId,
         checkpointName: checkpoint.name,
-        newSessionId: forked.id,
-        messageCount: checkpoint.messageCount
+        newSessionId,
+        messageCount: anchor.messageCount,
+        originSessionId: originSessionId !== sessionId ? originSessionId : undefined,
+        warning: uncapturedChangesWarning(checkpoint),
+        integrity,
+        preRestoreCheckpointId,
+        ...files
       };
 
     } catch (error) {
       return {
-        success: false,
-        checkpointId,
-        checkpointName: checkpoint.name,
-        newSessionId: '',
-        messageCount: 0,
-        error: error instanceof Error ? error.message : String(error)
+        ...this.failure(
+          checkpointId,
+          checkpoint.name,
+          error instanceof Error ? error.message : String(error)
+        ),
+        preRestoreCheckpointId
       };
     }
   }
@@ -127,20 +338,77 @@ export class RestoreManager {
   /**
    * Restore by checkpoint name (uses most recent if multiple)
    */
-  async restoreByName(sessionId: string, checkpointName: string): Promise<RestoreResult> {
-    const checkpoint = this.db.findCheckpointByName(sessionId, checkpointName);
+  async restoreByName(
+    sessionId: string,
+    checkpointName: string,
+    options: RestoreOptions = {}
+  ): Promise<RestoreResult> {
+    // Prefer the current session, then the most recent match in the project
+    const checkpoint = this.db.findCheckpointByName(sessionId, checkpointName) ??
+      (this.directory ? this.db.findProjectCheckpointByName(this.directory, checkpointName) : null);
     if (!checkpoint) {
+      return this.failure(0, checkpointName, `No checkpoint named "${checkpointName}" found for session`);
+    }
+
+    return this.restore(sessionId, checkpoint.id, options);
+  }
+
+  /**
+   * Restore the conversation at a message position that has no checkpoint
+   *
+   * With `options.checkpoint` a checkpoint is created at the position first
+   * (without git state, which is only known for the present) and restored
+   * like any other; otherwise the session is forked directly.
+   */
+  async restoreAt(
+    sessionId: string,
+    target: MessageTarget,
+    options: RestoreAtOptions = {}
+  ): Promise<RestoreResult> {
+    const position = describeMessageTarget(target);
+
+    try {
+      const messages = await this.sessionClient.messages(sessionId);
+      const anchor = resolveMessageTarget(target, messages);
+      if ('error' in anchor) {
+        return this.failure(0, options.checkpoint ?? position, anchor.error, anchor.messageCount);
+      }
+
+      if (options.checkpoint) {
+        const prefix = messages.slice(0, anchor.messageCount);
+        const checkpointId = this.db.createCheckpoint({
+          sessionId,
+          name: options.checkpoint,
+          description: options.description,
+          messageCount: anchor.messageCount,
+          anchorMessageId: anchor.messageId,
+          fingerprint: fingerprintMessages(prefix),
+          excerpt: conversationExcerpt(prefix),
+          directory: this.directory,
+          createdAt: prefix[prefix.length - 1].createdAt,
+          metadata: { directory: this.directory, retroactive: true, timestamp: Date.now() }
+        });
+        const result = await this.restore(sessionId, checkpointId);
+        return { ...result, retroactive: true };
+      }
+
+      const preRestoreCheckpointId = await this.recordPreRestore(sessionId, position, false, messages);
+      const newSessionId = await this.fork(sessionId, anchor.messageId, { id: null, name: position });
       return {
-        success: false,
+        success: true,
         checkpointId: 0,
-        checkpointName,
-        newSessionId: '',
-        messageCount: 0,
-        error: `No checkpoint named "${checkpointName}" found for session`
+        checkpointName: position,
+        newSessionId,
+        messageCount: anchor.messageCount,
+        preRestoreCheckpointId
       };
+    } catch (error) {
+      return this.failure(
+        0,
+        options.checkpoint ?? position,
+        error instanceof Error ? error.message : String(error)
+      );
     }
-
-    return this.restore(sessionId, checkpoint.id);
   }
 
   /**
@@ -155,19 +423,25 @@ export class RestoreManager {
       return { valid: false, reason: 'Checkpoint not found' };
     }
 
-    if (checkpoint.sessionId !== sessionId) {
-      return { valid: false, reason: 'Checkpoint belongs to different session' };
+    const notOwned = this.checkOwnership(sessionId, checkpoint);
+    if (notOwned) {
+      return { valid: false, reason: notOwned };
     }
 
     try {
-      const messages = await this.sessionClient.messages(sessionId);
-      if (messages.length < checkpoint.messageCount) {
+      const messages = await this.sessionClient.messages(checkpoint.sessionId);
+      if (!checkpoint.anchorMessageId && messages.length < checkpoint.messageCount) {
         return {
           valid: false,
           reason: `Session has ${messages.length} messages, checkpoint requires ${checkpoint.messageCount}`
         };
       }
 
+      const resolved = resolveAnchor(checkpoint, messages);
+      if ('error' in resolved) {
+        return { valid: false, reason: resolved.error };
+      }
+
       return { valid: true };
     } catch (error) {
       return {
@@ -176,4 +450,312 @@ export class RestoreManager {
       };
     }
   }
+
+  /**
+   * A checkpoint may be restored from its own session or from any session of
+   * the same project. Rows without a recorded project stay session-scoped.
+   *
+   * @returns The reason the checkpoint is off limits, or undefined
+   */
+  private checkOwnership(sessionId: string, checkpoint: Checkpoint): string | undefined {
+    if (checkpoint.sessionId === sessionId) {
+      return undefined;
+    }
+    if (!this.directory || !checkpoint.directory) {
+      return `Checkpoint belongs to different session (${checkpoint.sessionId})`;
+    }
+    if (checkpoint.directory !== this.directory) {
+      return `Checkpoint belongs to a different project (${checkpoint.directory})`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Work out what restoring would do, without forking or touching files
+   */
+  async preview(
+    sessionId: string,
+    checkpointId: number,
+    options: RestoreOptions = {}
+  ): Promise<RestorePreview> {
+    const mode = options.mode ?? 'conversation';
+    const checkpoint = this.db.getCheckpoint(checkpointId);
+    if (!checkpoint) {
+      return {
+        valid: false,
+        reason: `Checkpoint ${checkpointId} not found`,
+        checkpointId,
+        checkpointName: 'unknown',
+        mode
+      };
+    }
+
+    const preview: RestorePreview = {
+      valid: true,
+      checkpointId,
+      checkpointName: checkpoint.name,
+      mode,
+      originSessionId: checkpoint.sessionId !== sessionId ? checkpoint.sessionId : undefined,
+      warning: uncapturedChangesWarning(checkpoint)
+    };
+    const invalid = (reason: string): RestorePreview => ({ ...preview, valid: false, reason });
+
+    const notOwned = this.checkOwnership(sessionId, checkpoint);
+    if (notOwned) {
+      return invalid(notOwned);
+    }
+
+    // Conversation: where the fork would be anchored
+    try {
+      const messages = await this.sessionClient.messages(checkpoint.sessionId);
+      const planned = this.planConversation(checkpoint, messages, options);
+      preview.totalMessages = messages.length;
+      preview.integrity = checkpoint.fingerprint
+        ? verifyFingerprint(checkpoint.fingerprint, messages)
+        : undefined;
+      if ('error' in planned) {
+        if (mode !== 'files') {
+          return invalid(planned.error);
+        }
+      } else {
+        const { messageCount } = planned.anchor;
+        preview.anchorMessage = messages[messageCount - 1];
+        preview.anchorPosition = messageCount;
+        preview.messagesDropped = messages.length - messageCount;
+      }
+    } catch (error) {
+      if (mode !== 'files') {
+        return invalid(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    // Code: recorded git state compared with the current HEAD
+    const target = checkpoint.gitSnapshot ?? checkpoint.gitCommit ?? undefined;
+    if (this.git?.isRepository()) {
+      preview.git = {
+        target,
+        isSnapshot: !!checkpoint.gitSnapshot,
+        head: this.git.head(),
+        dirty: this.git.isDirty(),
+        changedFiles: target && this.git.hasCommit(target) ? this.git.changedFiles(target) : undefined
+      };
+    }
+
+    if (mode !== 'conversation' || options.checkout) {
+      const planned = this.planFiles(checkpoint, options);
+      if ('error' in planned) {
+        return invalid(planned.error);
+      }
+      preview.gitBranch = planned.branch;
+      preview.worktreePath = planned.worktreePath;
+    }
+
+    return preview;
+  }
+
+  /**
+   * Find the fork point after checking the conversation against the
+   * checkpoint's fingerprint. A changed prefix is refused unless forced; if
+   * the anchor is gone as well, a forced fork ends at the last message that
+   * still matches.
+   */
+  private planConversation(
+    checkpoint: Checkpoint,
+    messages: SessionMessage[],
+    options: RestoreOptions
+  ):
+    | { anchor: { messageId: string; messageCount: number }; integrity?: PrefixCheck }
+    | { error: string; messageCount: number } {
+    const integrity = checkpoint.fingerprint
+      ? verifyFingerprint(checkpoint.fingerprint, messages)
+      : undefined;
+    const damaged = integrity && integrity.status !== 'intact' ? integrity : undefined;
+
+    if (damaged && !options.force) {
+      return {
+        error: `${describePrefixCheck(damaged)}; restore with force to fork anyway`,
+        messageCount: messages.length
+      };
+    }
+
+    const resolved = resolveAnchor(checkpoint, messages);
+    if (!('error' in resolved)) {
+      return { anchor: resolved, integrity };
+    }
+
+    const intact = damaged?.status === 'diverged'
+      ? damaged.position - 1
+      : damaged?.status === 'truncated' ? damaged.available : 0;
+    if (intact > 0) {
+      return { anchor: { messageId: messages[intact - 1].id, messageCount: intact }, integrity };
+    }
+    return resolved;
+  }
+
+  /**
+   * Check that the working tree can be reset to the checkpoint, or that its
+   * branch or worktree can be created
+   */
+  private planFiles(checkpoint: Checkpoint, options: RestoreOptions): FilePlan | { error: string } {
+    // The branch or worktree is recorded with the forked session, so there has to be one
+    if (options.checkout && options.mode === 'files') {
+      return { error: 'checkout needs a forked session to record the branch or worktree; use mode "both"' };
+    }
+    if (!this.git || !this.git.isRepository()) {
+      return { error: 'File restore requires a git repository' };
+    }
+
+    const target = checkpoint.gitSnapshot ?? checkpoint.gitCommit;
+    if (!target) {
+      return { error: 'Checkpoint has no recorded git commit or snapshot' };
+    }
+    if (!this.git.hasCommit(target)) {
+      return { error: `Git object ${target.slice(0, 8)} is no longer available` };
+    }
+
+    const plan: FilePlan = { target, stash: false };
+    if (options.checkout) {
+      // Branch from the commit; a snapshot goes on top as uncommitted changes
+      plan.start = checkpoint.gitCommit ?? target;
+      if (!this.git.hasCommit(plan.start)) {
+        return { error: `Git commit ${plan.start.slice(0, 8)} is no longer available` };
+      }
+      plan.branch = checkpointBranchName(checkpoint);
+      if (this.git.hasBranch(plan.branch)) {
+        return { error: `Branch ${plan.branch} already exists` };
+      }
+    }
+
+    if (options.checkout === 'worktree') {
+      const root = this.git.root();
+      plan.worktreePath = options.worktreePath
+        ? resolve(this.directory ?? root, options.worktreePath)
+        : join(dirname(root), `${basename(root)}-${branchSuffix(checkpoint)}`);
+      if (existsSync(plan.worktreePath)) {
+        return { error: `Worktree path ${plan.worktreePath} already exists` };
+      }
+      // The current working tree is not touched
+      return plan;
+    }
+
+    if (this.git.isDirty()) {
+      if (options.onDirty !== 'stash') {
+        return {
+          error: 'Working tree has uncommitted changes; commit them or restore with onDirty "stash"'
+        };
+      }
+      plan.stash = true;
+    }
+
+    return plan;
+  }
+
+  /**
+   * Reset the working tree to the checkpoint's snapshot (or commit), on the
+   * current branch, a new branch or in a new worktree
+   */
+  private restoreFiles(checkpoint: Checkpoint, planned: FilePlan): RestoredFiles {
+    const git = this.git!;
+    const { target, start, branch, worktreePath } = planned;
+
+    if (worktreePath) {
+      git.addWorktree(worktreePath, branch!, start!);
+      if (target !== start) {
+        new GitRepository(worktreePath).restoreTree(target);
+      }
+      return { gitTarget: target, gitBranch: branch, worktreePath };
+    }
+
+    const stash = planned.stash
+      ? git.stash(`checkpoint-restore: before "${checkpoint.name}"`)
+      : undefined;
+
+    const changedFiles = git.changedFiles(target);
+    if (branch) {
+      git.checkoutNewBranch(branch, start!);
+    }
+    if (!branch || target !== start) {
+      git.restoreTree(target);
+    }
+
+    return { gitTarget: target, changedFiles, stash, gitBranch: branch };
+  }
+
+  /**
+   * Checkpoint the head of the caller's session, and the working tree when
+   * files are about to change, so restoring it undoes the restore
+   *
+   * @returns ID of the pre-restore checkpoint
+   */
+  private async recordPreRestore(
+    sessionId: string,
+    restoring: string,
+    saveFiles: boolean,
+    messages?: SessionMessage[]
+  ): Promise<number> {
+    const current = messages ?? await this.sessionClient.messages(sessionId);
+    const name = `Before restore: ${restoring}`;
+    const git = saveFiles && this.git?.isRepository() ? this.git : undefined;
+
+    return this.db.createCheckpoint({
+      sessionId,
+      name,
+      messageCount: current.length,
+      anchorMessageId: current[current.length - 1]?.id,
+      fingerprint: current.length > 0 ? fingerprintMessages(current) : undefined,
+      excerpt: conversationExcerpt(current),
+      gitCommit: git?.head(),
+      // Taken before any stash, so uncommitted changes are in it
+      gitSnapshot: git?.snapshot({ includeUntracked: true, message: `checkpoint: ${name}` }),
+      gitStatus: git?.status(),
+      autoTrigger: PRE_RESTORE_TRIGGER,
+      directory: this.directory,
+      metadata: { directory: this.directory, timestamp: Date.now() }
+    });
+  }
+
+  /**
+   * Fork a session at a message and record where the fork came from
+   *
+   * @returns ID of the new session
+   */
+  private async fork(
+    sessionId: string,
+    messageId: string,
+    source: { id: number | null; name: string },
+    files: RestoredFiles = {}
+  ): Promise<string> {
+    const forked = await this.sessionClient.fork({
+      sessionId,
+      messageId,
+      title: `Restored: ${source.name}`
+    });
+
+    this.db.recordLineage({
+      sessionId: forked.id,
+      parentSessionId: sessionId,
+      checkpointId: source.id,
+      checkpointName: source.name,
+      gitBranch: files.gitBranch,
+      worktreePath: files.worktreePath
+    });
+
+    return forked.id;
+  }
+
+  private failure(
+    checkpointId: number,
+    checkpointName: string,
+    error: string,
+    messageCount = 0
+  ): RestoreResult {
+    return {
+      success: false,
+      checkpointId,
+      checkpointName,
+      newSessionId: '',
+      messageCount,
+      error
+    };
+  }
 }
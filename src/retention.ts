@@ -0,0 +1,129 @@
+/**
+ * retention.ts - Retention policies for accumulated checkpoints
+ *
+ * Pure planning logic: given a session's checkpoints and a policy, decide
+ * which ones to keep and which to prune. Deleting is left to the caller so
+ * the same plan can be shown as a dry run.
+ *
+ * Per session, newest first:
+ * 1. Pinned checkpoints are always kept
+ * 2. The newest `keepLast` checkpoints are always kept
+ * 3. Checkpoints older than `maxAge` are pruned
+ * 4. Thinning rules keep one checkpoint per `every` interval for checkpoints
+ *    younger than `within` (e.g. hourly for a day, then daily for a week)
+ */
+
+import type { Checkpoint } from './store.js';
+
+export interface ThinningRule {
+  /** Applies to checkpoints younger than this, e.g. "1d" */
+  within: string;
+  /** Keep at most one checkpoint per interval, e.g. "1h" */
+  every: string;
+}
+
+export interface RetentionPolicy {
+  /** Always keep the newest N checkpoints per session (0 disables) */
+  keepLast: number;
+  /** Prune checkpoints older than this, e.g. "30d" (empty disables) */
+  maxAge?: string;
+  thinning: ThinningRule[];
+}
+
+export interface PruneCandidate {
+  checkpoint: Checkpoint;
+  reason: string;
+}
+
+export interface PrunePlan {
+  keep: Checkpoint[];
+  prune: PruneCandidate[];
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse a duration like "30m", "12h", "7d" or "2w" into milliseconds
+ *
+ * @throws Error on malformed durations
+ */
+export function parseDuration(duration: string): number {
+  const match = /^(\d+)\s*([mhdw])$/.exec(duration.trim());
+  if (!match) {
+    throw new Error(`Invalid duration "${duration}" (expected e.g. 30m, 12h, 7d, 2w)`);
+  }
+  return parseInt(match[1], 10) * DURATION_UNITS[match[2]];
+}
+
+/**
+ * Decide which checkpoints a policy keeps and which it prunes
+ */
+export function planPrune(
+  checkpoints: Checkpoint[],
+  policy: RetentionPolicy,
+  now: number = Date.now()
+): PrunePlan {
+  const maxAge = policy.maxAge ? parseDuration(policy.maxAge) : undefined;
+  const rules = policy.thinning
+    .map((rule) => ({
+      within: parseDuration(rule.within),
+      every: parseDuration(rule.every),
+      label: `thinned to one per ${rule.every} within ${rule.within}`,
+    }))
+    .sort((a, b) => a.within - b.within);
+
+  const bySession = new Map<string, Checkpoint[]>();
+  for (const checkpoint of checkpoints) {
+    const list = bySession.get(checkpoint.sessionId) ?? [];
+    list.push(checkpoint);
+    bySession.set(checkpoint.sessionId, list);
+  }
+
+  const plan: PrunePlan = { keep: [], prune: [] };
+
+  for (const sessionCheckpoints of bySession.values()) {
+    const newestFirst = [...sessionCheckpoints].sort(
+      (a, b) => b.createdAt - a.createdAt || b.id - a.id
+    );
+    // Occupied thinning buckets, per rule
+    const buckets = rules.map(() => new Set<number>());
+
+    newestFirst.forEach((checkpoint, index) => {
+      const age = now - checkpoint.createdAt;
+      const ruleIndex = rules.findIndex((rule) => age <= rule.within);
+      const bucket = ruleIndex === -1
+        ? undefined
+        : Math.floor(checkpoint.createdAt / rules[ruleIndex].every);
+
+      if (checkpoint.pinned || index < policy.keepLast) {
+        if (bucket !== undefined) {
+          buckets[ruleIndex].add(bucket);
+        }
+        plan.keep.push(checkpoint);
+        return;
+      }
+
+      if (maxAge !== undefined && age > maxAge) {
+        plan.prune.push({ checkpoint, reason: `older than ${policy.maxAge}` });
+        return;
+      }
+
+      if (bucket !== undefined) {
+        if (buckets[ruleIndex].has(bucket)) {
+          plan.prune.push({ checkpoint, reason: rules[ruleIndex].label });
+          return;
+        }
+        buckets[ruleIndex].add(bucket);
+      }
+
+      plan.keep.push(checkpoint);
+    });
+  }
+
+  return plan;
+}
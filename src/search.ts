@@ -0,0 +1,53 @@
+/**
+ * search.ts - Argument parsing for checkpoint search
+ *
+ * Turns the strings the agent passes to `checkpoint_search` into a
+ * CheckpointSearch filter for the database.
+ */
+
+import type { CheckpointSearch } from './store.js';
+import { parseDuration } from './retention.js';
+
+export interface SearchArgs {
+  tags?: string[];
+  name?: string;
+  after?: string;
+  before?: string;
+  gitCommit?: string;
+}
+
+/**
+ * Parse a date bound: an absolute date ("2024-05-01", "2024-05-01T14:00")
+ * or a duration meaning that long ago ("7d")
+ *
+ * @throws Error on unparseable values
+ */
+export function parseTimeBound(value: string, now: number = Date.now()): number {
+  const trimmed = value.trim();
+  if (/^\d+\s*[mhdw]$/.test(trimmed)) {
+    return now - parseDuration(trimmed);
+  }
+
+  const timestamp = Date.parse(trimmed);
+  if (isNaN(timestamp)) {
+    throw new Error(
+      `Invalid date "${value}" (expected e.g. 2024-05-01, 2024-05-01T14:00 or 7d for 7 days ago)`
+    );
+  }
+  return timestamp;
+}
+
+/**
+ * Build a database filter from tool arguments (session is left to the caller)
+ *
+ * @throws Error on invalid dates
+ */
+export function toSearchFilter(args: SearchArgs, now: number = Date.now()): CheckpointSearch {
+  return {
+    tags: args.tags,
+    name: args.name?.trim() || undefined,
+    createdAfter: args.after ? parseTimeBound(args.after, now) : undefined,
+    createdBefore: args.before ? parseTimeBound(args.before, now) : undefined,
+    gitCommit: args.gitCommit?.trim() || undefined,
+  };
+}
@@ -0,0 +1,539 @@
+/**
+ * store.ts - Checkpoint storage contract and store selection
+ *
+ * Every backend implements CheckpointStore: SQLite (`database.ts`, the
+ * default), a JSON-lines file (`jsonl.ts`) and an in-memory store
+ * (`memory.ts`). Backends are loaded on demand, so the native SQLite module
+ * is only required when SQLite is used.
+ *
+ * The global store is one file shared by every project; the project store
+ * lives in the repository under `.opencode/`. With `location: "both"` the
+ * project store is used and every checkpoint created, edited, deleted or
+ * undeleted there is mirrored into the global store. The project store's
+ * files are git-ignored, so snapshots, stashes and restores leave them alone.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { homedir } from 'os';
+import { basename, dirname, join, resolve } from 'path';
+import type { GitStatus } from './git.js';
+import type { StoreBackend, StoreConfig } from './config.js';
+
+export interface Checkpoint {
+  id: number;
+  sessionId: string;
+  name: string;
+  description: string | null;
+  messageCount: number;
+  anchorMessageId: string | null;
+  fingerprint: string | null; // rolling hash of the conversation up to the anchor
+  excerpt: string | null; // text of the last messages up to the anchor, for full-text search
+  gitCommit: string | null;
+  gitSnapshot: string | null;
+  gitStatus: GitStatus | null; // null when not recorded
+  autoTrigger: string | null; // null for checkpoints created on request
+  pinned: boolean;
+  tags: string[];
+  directory: string | null; // project the checkpoint belongs to
+  createdAt: number;
+  updatedAt: number;
+  deletedAt: number | null; // set while the checkpoint is in the trash
+  metadata: string; // JSON string
+}
+
+export interface CheckpointCreate {
+  sessionId: string;
+  name: string;
+  description?: string;
+  messageCount: number;
+  anchorMessageId?: string;
+  fingerprint?: string;
+  excerpt?: string;
+  gitCommit?: string;
+  gitSnapshot?: string;
+  gitStatus?: GitStatus;
+  autoTrigger?: string;
+  pinned?: boolean;
+  tags?: string[];
+  directory?: string;
+  createdAt?: number; // defaults to now; set when importing
+  metadata?: Record<string, any>;
+}
+
+export interface CheckpointUpdate {
+  name?: string;
+  description?: string | null;
+  /** Pinned checkpoints survive session cleanup and pruning */
+  pinned?: boolean;
+  /** Keys merged into the existing metadata */
+  metadata?: Record<string, any>;
+  addTags?: string[];
+  removeTags?: string[];
+}
+
+export interface SessionLineage {
+  /** Session created by restoring a checkpoint */
+  sessionId: string;
+  parentSessionId: string;
+  /** null once the checkpoint has been deleted */
+  checkpointId: number | null;
+  checkpointName: string;
+  /** Branch created for the fork's code, if any */
+  gitBranch: string | null;
+  /** Worktree created for the fork's code, if any */
+  worktreePath: string | null;
+  createdAt: number;
+}
+
+export type LineageRecord = Omit<SessionLineage, 'createdAt' | 'gitBranch' | 'worktreePath'> & {
+  gitBranch?: string;
+  worktreePath?: string;
+};
+
+export interface CheckpointSearch {
+  sessionId?: string;
+  directory?: string;
+  /** Checkpoints must carry every one of these tags */
+  tags?: string[];
+  /** Case-insensitive substring of the name */
+  name?: string;
+  createdAfter?: number;
+  createdBefore?: number;
+  /** Prefix of the recorded git commit */
+  gitCommit?: string;
+  limit?: number;
+}
+
+export interface CheckpointQuery {
+  /** Plain-language query over the name, description and conversation excerpt */
+  text: string;
+  sessionId?: string;
+  directory?: string;
+  limit?: number;
+}
+
+export type CheckpointAction =
+  | 'create'
+  | 'update'
+  | 'delete'
+  | 'undelete'
+  | 'restore'
+  | 'prune'
+  | 'cleanup';
+
+export const CHECKPOINT_ACTIONS: CheckpointAction[] = [
+  'create', 'update', 'delete', 'undelete', 'restore', 'prune', 'cleanup',
+];
+
+/**
+ * Entry of the audit log. Entries are never changed or removed, and they keep
+ * the checkpoint ID and name after the checkpoint itself is purged.
+ */
+export interface CheckpointEvent {
+  id: number;
+  action: CheckpointAction;
+  /** null when the operation failed before a checkpoint was found */
+  checkpointId: number | null;
+  checkpointName: string | null;
+  /** Session the operation was run from */
+  sessionId: string | null;
+  /** Agent that called the tool; null for automatic operations */
+  agent: string | null;
+  directory: string | null;
+  success: boolean;
+  error: string | null;
+  /** Session created by a restore */
+  forkSessionId: string | null;
+  details: string; // JSON string
+  createdAt: number;
+}
+
+export interface CheckpointEventRecord {
+  action: CheckpointAction;
+  checkpointId?: number | null;
+  checkpointName?: string | null;
+  sessionId?: string | null;
+  agent?: string | null;
+  directory?: string | null;
+  /** Defaults to true */
+  success?: boolean;
+  error?: string;
+  forkSessionId?: string;
+  details?: Record<string, any>;
+}
+
+export interface EventFilter {
+  checkpointId?: number;
+  sessionId?: string;
+  directory?: string;
+  action?: CheckpointAction;
+  /** Only events at or after this time */
+  since?: number;
+  limit?: number;
+}
+
+export interface TrashFilter {
+  sessionId?: string;
+  directory?: string;
+}
+
+export interface CheckpointMatch {
+  checkpoint: Checkpoint;
+  /** Best matching passage, matched words wrapped in `**` */
+  snippet: string;
+}
+
+/**
+ * Trim tags and drop empty and duplicate ones
+ */
+export function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map((tag) => tag.trim()).filter(Boolean))];
+}
+
+export interface CheckpointStore {
+  readonly backend: StoreBackend;
+
+  createCheckpoint(data: CheckpointCreate): number;
+  /** @returns The updated checkpoint, or null if it does not exist */
+  updateCheckpoint(id: number, changes: CheckpointUpdate): Checkpoint | null;
+  getCheckpoint(id: number): Checkpoint | null;
+  /** Newest first */
+  listCheckpoints(sessionId: string, limit?: number): Checkpoint[];
+  /** By session, newest first within a session; no row limit */
+  listAllCheckpoints(sessionId?: string): Checkpoint[];
+  /** Newest first */
+  searchCheckpoints(filter: CheckpointSearch): Checkpoint[];
+  /** Full-text search, best match first */
+  findCheckpoints(query: CheckpointQuery): CheckpointMatch[];
+  /** Most recent match */
+  findCheckpointByName(sessionId: string, name: string): Checkpoint | null;
+  /** Most recent match in any session of the project */
+  findProjectCheckpointByName(directory: string, name: string): Checkpoint | null;
+  /**
+   * Move a checkpoint to the trash. Trashed checkpoints are left out of every
+   * other query until they are undeleted or purged.
+   */
+  deleteCheckpoint(id: number): boolean;
+  deleteCheckpoints(ids: number[]): number;
+  /** Pinned checkpoints are kept */
+  deleteSessionCheckpoints(sessionId: string): number;
+  /** Trashed checkpoints, most recently deleted first */
+  listTrash(filter?: TrashFilter): Checkpoint[];
+  /** @returns The recovered checkpoint, or null if it is not in the trash */
+  undeleteCheckpoint(id: number): Checkpoint | null;
+  /**
+   * Permanently remove checkpoints trashed before a time. Also clears them
+   * from lineage links (checkpointId becomes null). Snapshot refs live in
+   * git, so the plugin drops those itself.
+   *
+   * @param directory - Only purge checkpoints of this project directory
+   */
+  purgeTrash(deletedBefore: number, directory?: string): number;
+
+  /** Replaces an earlier record for the same session */
+  recordLineage(data: LineageRecord): void;
+  getLineage(sessionId: string): SessionLineage | null;
+  /** Oldest first */
+  listLineage(): SessionLineage[];
+
+  /** Append to the audit log */
+  recordEvent(event: CheckpointEventRecord): void;
+  /** Newest first */
+  listEvents(filter?: EventFilter): CheckpointEvent[];
+
+  getStats(): { totalCheckpoints: number; totalSessions: number };
+  /** Versioned schemas only */
+  getSchemaVersion?(): number;
+  /** File the store keeps its data in (":memory:" for the in-memory store) */
+  getPath(): string;
+  close(): void;
+}
+
+const STORE_FILES: Record<Exclude<StoreBackend, 'memory'>, string> = {
+  sqlite: 'checkpoints.db',
+  jsonl: 'checkpoints.jsonl',
+};
+
+export const PROJECT_STORE_FILE = join('.opencode', STORE_FILES.sqlite);
+
+export interface StorePaths {
+  /** Store the plugin reads and writes */
+  primary: string;
+  /** Store that receives a copy of every change ("both") */
+  mirror?: string;
+}
+
+/**
+ * Store paths for a project directory
+ *
+ * @throws Error on an unknown store location or backend
+ */
+export function resolveStorePaths(directory: string, store: StoreConfig): StorePaths {
+  const backend = store.backend ?? 'sqlite';
+  if (backend === 'memory') {
+    return { primary: ':memory:' };
+  }
+  if (!(backend in STORE_FILES)) {
+    throw new Error(
+      `Unknown checkpoint store backend "${backend}" (expected sqlite, jsonl or memory)`
+    );
+  }
+
+  const file = STORE_FILES[backend];
+  const globalPath = store.globalPath
+    ? resolve(directory, store.globalPath.replace(/^~(?=\/|$)/, homedir()))
+    : join(homedir(), '.local', 'share', 'opencode', file);
+  const projectPath = join(directory, '.opencode', file);
+
+  switch (store.location) {
+    case 'global':
+      return { primary: globalPath };
+    case 'project':
+      return { primary: projectPath };
+    case 'both':
+      return { primary: projectPath, mirror: globalPath };
+    default:
+      throw new Error(
+        `Unknown checkpoint store location "${store.location}" (expected global, project or both)`
+      );
+  }
+}
+
+async function openBackend(backend: StoreBackend, path: string): Promise<CheckpointStore> {
+  switch (backend) {
+    case 'memory': {
+      const { MemoryCheckpointStore } = await import('./memory.js');
+      return new MemoryCheckpointStore();
+    }
+    case 'jsonl': {
+      const { JsonlCheckpointStore } = await import('./jsonl.js');
+      return new JsonlCheckpointStore(path);
+    }
+    case 'sqlite': {
+      let sqlite: typeof import('./database.js');
+      try {
+        sqlite = await import('./database.js');
+      } catch (error) {
+        throw new Error(
+          `SQLite checkpoint store is unavailable (${error instanceof Error ? error.message : String(error)}); ` +
+          'set store.backend to "jsonl" in checkpoint.json'
+        );
+      }
+      return new sqlite.CheckpointDatabase(path);
+    }
+  }
+}
+
+/**
+ * Add `<store file>*` to the .gitignore next to a project store, keeping
+ * what is there. The pattern also covers SQLite's -wal and -shm files,
+ * migration backups and JSONL temp files. Without it, snapshots would copy
+ * the database and a stash or restore would move it away while open.
+ */
+function ignoreProjectStore(path: string): void {
+  const ignoreFile = join(dirname(path), '.gitignore');
+  const pattern = `${basename(path)}*`;
+  const existing = existsSync(ignoreFile) ? readFileSync(ignoreFile, 'utf8') : '';
+  if (existing.split('\n').some((line) => line.trim() === pattern)) {
+    return;
+  }
+
+  mkdirSync(dirname(path), { recursive: true });
+  appendFileSync(ignoreFile, `${existing && !existing.endsWith('\n') ? '\n' : ''}${pattern}\n`);
+}
+
+/**
+ * Open the store configured for a project directory
+ */
+export async function openStore(directory: string, store: StoreConfig): Promise<CheckpointStore> {
+  const backend = store.backend ?? 'sqlite';
+  const paths = resolveStorePaths(directory, store);
+  if (backend !== 'memory' && store.location !== 'global') {
+    ignoreProjectStore(paths.primary);
+  }
+  const primary = await openBackend(backend, paths.primary);
+  return paths.mirror
+    ? new MirroredCheckpointStore(primary, await openBackend(backend, paths.mirror))
+    : primary;
+}
+
+/**
+ * Project store that copies created, edited and deleted checkpoints to a
+ * second store. Mirror rows get their own IDs and are matched by session,
+ * name and creation time. Mirror failures never fail the primary write.
+ */
+export class MirroredCheckpointStore implements CheckpointStore {
+  constructor(
+    private readonly primary: CheckpointStore,
+    private readonly mirror: CheckpointStore
+  ) {}
+
+  get backend(): StoreBackend {
+    return this.primary.backend;
+  }
+
+  createCheckpoint(data: CheckpointCreate): number {
+    // Pin the timestamp so both copies match
+    const row = { ...data, createdAt: data.createdAt ?? Date.now() };
+    const id = this.primary.createCheckpoint(row);
+    this.mirrored(() => this.mirror.createCheckpoint(row));
+    return id;
+  }
+
+  updateCheckpoint(id: number, changes: CheckpointUpdate): Checkpoint | null {
+    // Find the copy before a rename changes what it is matched by
+    const before = this.getCheckpoint(id);
+    const updated = this.primary.updateCheckpoint(id, changes);
+    if (updated && before) {
+      this.mirrored(() => {
+        const copy = this.findCopy(before);
+        if (copy) {
+          this.mirror.updateCheckpoint(copy.id, changes);
+        }
+      });
+    }
+    return updated;
+  }
+
+  getCheckpoint(id: number): Checkpoint | null {
+    return this.primary.getCheckpoint(id);
+  }
+
+  listCheckpoints(sessionId: string, limit?: number): Checkpoint[] {
+    return this.primary.listCheckpoints(sessionId, limit);
+  }
+
+  listAllCheckpoints(sessionId?: string): Checkpoint[] {
+    return this.primary.listAllCheckpoints(sessionId);
+  }
+
+  searchCheckpoints(filter: CheckpointSearch): Checkpoint[] {
+    return this.primary.searchCheckpoints(filter);
+  }
+
+  findCheckpoints(query: CheckpointQuery): CheckpointMatch[] {
+    return this.primary.findCheckpoints(query);
+  }
+
+  findCheckpointByName(sessionId: string, name: string): Checkpoint | null {
+    return this.primary.findCheckpointByName(sessionId, name);
+  }
+
+  findProjectCheckpointByName(directory: string, name: string): Checkpoint | null {
+    return this.primary.findProjectCheckpointByName(directory, name);
+  }
+
+  deleteCheckpoint(id: number): boolean {
+    const checkpoint = this.getCheckpoint(id);
+    const deleted = this.primary.deleteCheckpoint(id);
+    if (deleted && checkpoint) {
+      this.mirrored(() => this.deleteCopy(checkpoint));
+    }
+    return deleted;
+  }
+
+  deleteCheckpoints(ids: number[]): number {
+    const checkpoints = ids
+      .map((id) => this.getCheckpoint(id))
+      .filter((cp): cp is Checkpoint => cp !== null);
+    const deleted = this.primary.deleteCheckpoints(ids);
+    this.mirrored(() => checkpoints.forEach((cp) => this.deleteCopy(cp)));
+    return deleted;
+  }
+
+  deleteSessionCheckpoints(sessionId: string): number {
+    const deleted = this.primary.deleteSessionCheckpoints(sessionId);
+    this.mirrored(() => this.mirror.deleteSessionCheckpoints(sessionId));
+    return deleted;
+  }
+
+  listTrash(filter?: TrashFilter): Checkpoint[] {
+    return this.primary.listTrash(filter);
+  }
+
+  undeleteCheckpoint(id: number): Checkpoint | null {
+    const restored = this.primary.undeleteCheckpoint(id);
+    if (restored) {
+      this.mirrored(() => {
+        const copy = this.mirror
+          .listTrash({ sessionId: restored.sessionId })
+          .find((cp) => cp.name === restored.name && cp.createdAt === restored.createdAt);
+        if (copy) {
+          this.mirror.undeleteCheckpoint(copy.id);
+        }
+      });
+    }
+    return restored;
+  }
+
+  purgeTrash(deletedBefore: number, directory?: string): number {
+    const purged = this.primary.purgeTrash(deletedBefore, directory);
+    this.mirrored(() => this.mirror.purgeTrash(deletedBefore, directory));
+    return purged;
+  }
+
+  recordLineage(data: LineageRecord): void {
+    this.primary.recordLineage(data);
+  }
+
+  getLineage(sessionId: string): SessionLineage | null {
+    return this.primary.getLineage(sessionId);
+  }
+
+  listLineage(): SessionLineage[] {
+    return this.primary.listLineage();
+  }
+
+  recordEvent(event: CheckpointEventRecord): void {
+    this.primary.recordEvent(event);
+  }
+
+  listEvents(filter?: EventFilter): CheckpointEvent[] {
+    return this.primary.listEvents(filter);
+  }
+
+  getStats(): { totalCheckpoints: number; totalSessions: number } {
+    return this.primary.getStats();
+  }
+
+  getSchemaVersion(): number {
+    return this.primary.getSchemaVersion?.() ?? 0;
+  }
+
+  getPath(): string {
+    return this.primary.getPath();
+  }
+
+  close(): void {
+    this.primary.close();
+    this.mirror.close();
+  }
+
+  /**
+   * Path of the mirror store
+   */
+  getMirrorPath(): string {
+    return this.mirror.getPath();
+  }
+
+  private findCopy(checkpoint: Checkpoint): Checkpoint | undefined {
+    return this.mirror
+      .listAllCheckpoints(checkpoint.sessionId)
+      .find((cp) => cp.name === checkpoint.name && cp.createdAt === checkpoint.createdAt);
+  }
+
+  private deleteCopy(checkpoint: Checkpoint): void {
+    const copy = this.findCopy(checkpoint);
+    if (copy) {
+      this.mirror.deleteCheckpoint(copy.id);
+    }
+  }
+
+  private mirrored(write: () => unknown): void {
+    try {
+      write();
+    } catch {
+      // The mirror is a convenience copy; the project store stays authoritative
+    }
+  }
+}
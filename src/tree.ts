@@ -0,0 +1,108 @@
+/**
+ * tree.ts - Render the branch structure of sessions and checkpoints
+ *
+ * Every session lists its checkpoints oldest first; a session created by
+ * restoring a checkpoint hangs below that checkpoint, like a branch in
+ * `git log --graph`. Forks whose checkpoint was deleted hang below their
+ * parent session instead.
+ */
+
+import type { Checkpoint, SessionLineage } from './store.js';
+
+interface TreeNode {
+  label: string;
+  children: TreeNode[];
+}
+
+/**
+ * Walk up the lineage to the session everything started from
+ */
+export function findRootSession(sessionId: string, lineage: SessionLineage[]): string {
+  const parents = new Map(lineage.map((link) => [link.sessionId, link.parentSessionId]));
+  const seen = new Set<string>([sessionId]);
+  let root = sessionId;
+
+  while (parents.has(root) && !seen.has(parents.get(root)!)) {
+    root = parents.get(root)!;
+    seen.add(root);
+  }
+  return root;
+}
+
+/**
+ * Sessions no fork points back to a parent for, in order of first appearance
+ */
+export function rootSessions(checkpoints: Checkpoint[], lineage: SessionLineage[]): string[] {
+  const forked = new Set(lineage.map((link) => link.sessionId));
+  const sessions = [
+    ...[...checkpoints].sort((a, b) => a.createdAt - b.createdAt || a.id - b.id)
+      .map((cp) => cp.sessionId),
+    ...lineage.map((link) => link.parentSessionId),
+  ];
+  return [...new Set(sessions)].filter((session) => !forked.has(session));
+}
+
+/**
+ * Render the trees below the given root sessions
+ *
+ * @param current Session to mark as the current one
+ */
+export function renderTree(
+  roots: string[],
+  checkpoints: Checkpoint[],
+  lineage: SessionLineage[],
+  current?: string
+): string {
+  const visited = new Set<string>();
+  const links = new Map(lineage.map((link) => [link.sessionId, link]));
+
+  const sessionNode = (sessionId: string, origin?: string): TreeNode => {
+    visited.add(sessionId);
+
+    const forks = lineage.filter(
+      (link) => link.parentSessionId === sessionId && !visited.has(link.sessionId)
+    );
+    const sessionCheckpoints = checkpoints
+      .filter((cp) => cp.sessionId === sessionId)
+      .sort((a, b) => a.createdAt - b.createdAt || a.id - b.id);
+    const known = new Set(sessionCheckpoints.map((cp) => cp.id));
+
+    const children: TreeNode[] = sessionCheckpoints.map((cp) => ({
+      label: `#${cp.id} ${cp.name}${cp.autoTrigger ? ' (auto)' : ''}`,
+      children: forks
+        .filter((link) => link.checkpointId === cp.id)
+        .map((link) => sessionNode(link.sessionId)),
+    }));
+
+    for (const link of forks) {
+      if (link.checkpointId === null || !known.has(link.checkpointId)) {
+        children.push(sessionNode(link.sessionId, `from deleted checkpoint "${link.checkpointName}"`));
+      }
+    }
+
+    let label = `session ${sessionId}`;
+    if (origin) label += ` (${origin})`;
+    const link = links.get(sessionId);
+    if (link?.worktreePath) label += ` [worktree ${link.worktreePath}]`;
+    else if (link?.gitBranch) label += ` [branch ${link.gitBranch}]`;
+    if (sessionId === current) label += ' ← current';
+    return { label, children };
+  };
+
+  const lines: string[] = [];
+  const render = (node: TreeNode, prefix: string, connector: string, childPrefix: string) => {
+    lines.push(`${prefix}${connector}${node.label}`);
+    node.children.forEach((child, index) => {
+      const last = index === node.children.length - 1;
+      render(child, prefix + childPrefix, last ? '└── ' : '├── ', last ? '    ' : '│   ');
+    });
+  };
+
+  for (const root of roots) {
+    if (!visited.has(root)) {
+      render(sessionNode(root), '', '', '');
+    }
+  }
+
+  return lines.join('\n');
+}